@@ -10,7 +10,7 @@ class CompactSortedAlgorithm {
 	constructor(public world: World) {}
 
 	*execute(): Algorithm {
-		printStep('Compacting');
+		this.world.tracer.step('Compacting');
 
 		while (!this.world.isXYMonotone()) {
 			let cubesSorted = [...this.world.cubes];
@@ -22,42 +22,45 @@ class CompactSortedAlgorithm {
 			});
 
 			let bestMove: Move[] | null = null;
+			let bestType = '';
 			let maxScore = -Infinity;
-			const tryMove = function (m: Move[], moveOrigin: [number, number]) {
+			const tryMove = function (type: string, m: Move[],
+					moveOrigin: [number, number]) {
 				const s = Math.max(moveOrigin[0], moveOrigin[1]);
 				if (s > maxScore) {
 					maxScore = s;
 					bestMove = m;
+					bestType = type;
 				}
 			}
 
 			const freeMove = this.findFreeMove(cubesSorted);
 			if (freeMove !== null) {
-				tryMove(freeMove, freeMove[0].sourcePosition());
+				tryMove('Free move', freeMove, freeMove[0].sourcePosition());
 			} else {
 				const semiFreeMove = this.findSemiFreeMove(cubesSorted);
 				if (semiFreeMove !== null) {
-					tryMove(semiFreeMove, semiFreeMove[0].sourcePosition());
+					tryMove('Semi-free move', semiFreeMove, semiFreeMove[0].sourcePosition());
 				}
 			}
 
 			const topCornerMove = this.findTopCornerMove(cubesSorted);
 			if (topCornerMove !== null) {
-				tryMove(topCornerMove, topCornerMove[0].sourcePosition());
+				tryMove('Top corner move', topCornerMove, topCornerMove[0].sourcePosition());
 			} else {
 				const bottomCornerMove = this.findBottomCornerMove(cubesSorted);
 				if (bottomCornerMove !== null) {
-					tryMove(bottomCornerMove, bottomCornerMove[0].sourcePosition());
+					tryMove('Bottom corner move', bottomCornerMove, bottomCornerMove[0].sourcePosition());
 				}
 			}
 
 			const horizontalChainMove = this.findHorizontalChainMove();
 			if (horizontalChainMove !== null) {
-				tryMove(...horizontalChainMove);
+				tryMove('Horizontal chain move', ...horizontalChainMove);
 			}
 			const verticalChainMove = this.findVerticalChainMove();
 			if (verticalChainMove !== null) {
-				tryMove(...verticalChainMove);
+				tryMove('Vertical chain move', ...verticalChainMove);
 			}
 
 			if (bestMove === null) {
@@ -65,8 +68,23 @@ class CompactSortedAlgorithm {
 						"is not yet xy-monotone");
 			}
 
-			// @ts-ignore
-			for (const m of bestMove) {
+			// (bestMove is narrowed to never here, as TypeScript does not see
+			// the assignment in tryMove)
+			const moves: Move[] = bestMove;
+
+			// report and annotate the type of compaction move that won
+			this.world.tracer.subStep(bestType);
+			this.world.clearAnnotations();
+			moves.forEach((m, i) => {
+				this.world.annotate({
+					type: 'arrow',
+					from: m.sourcePosition(),
+					to: m.targetPosition(),
+					label: i === 0 ? bestType : undefined
+				});
+			});
+
+			for (const m of moves) {
 				yield m;
 			}
 		}
@@ -157,6 +175,7 @@ class CompactSortedAlgorithm {
 
 			// top corner move
 			if (!neighbor['W'] && neighbor['N'] && neighbor['NW'] &&
+					!this.world.hasObstacle([x - 1, y]) &&
 					(!this.CORNER_MOVES_ONLY_BOUNDARY ||
 							(cube.onBoundary && neighbor['N'].onBoundary && neighbor['NW'].onBoundary)) &&
 					cube.componentStatus === ComponentStatus.CHUNK_STABLE &&
@@ -171,6 +190,7 @@ class CompactSortedAlgorithm {
 			}
 
 			if (!neighbor['S'] && neighbor['E'] && neighbor['SE'] &&
+					!this.world.hasObstacle([x, y - 1]) &&
 					(!this.CORNER_MOVES_ONLY_BOUNDARY ||
 							(cube.onBoundary && neighbor['E'].onBoundary && neighbor['SE'].onBoundary)) &&
 					cube.componentStatus === ComponentStatus.CHUNK_STABLE &&
@@ -196,6 +216,7 @@ class CompactSortedAlgorithm {
 
 			// bottom corner move
 			if (!neighbor['W'] && neighbor['S'] && neighbor['SW'] &&
+					!this.world.hasObstacle([x - 1, y]) &&
 					(!this.CORNER_MOVES_ONLY_BOUNDARY ||
 							(cube.onBoundary && neighbor['S'].onBoundary && neighbor['SW'].onBoundary)) &&
 					cube.componentStatus === ComponentStatus.CHUNK_STABLE &&
@@ -210,6 +231,7 @@ class CompactSortedAlgorithm {
 			}
 
 			if (!neighbor['N'] && neighbor['E'] && neighbor['NE'] &&
+					!this.world.hasObstacle([x, y + 1]) &&
 					(!this.CORNER_MOVES_ONLY_BOUNDARY ||
 							(cube.onBoundary && neighbor['E'].onBoundary && neighbor['NE'].onBoundary)) &&
 					cube.componentStatus === ComponentStatus.CHUNK_STABLE &&
@@ -291,6 +313,28 @@ class CompactSortedAlgorithm {
 		return true;
 	}
 
+	/**
+	 * Checks if a chain move from the first to the last coordinate would run
+	 * into an obstacle. The chain runs along the cells given by `cell`, one
+	 * step outside the configuration, and ends one step beyond the last
+	 * coordinate (two steps if a loose square is moved out of the way).
+	 */
+	chainBlocked(first: number, last: number,
+			cell: (i: number) => [number, number],
+			movedLooseSquare: boolean): boolean {
+		let cells: [number, number][] = [];
+		for (let i = last - 1; i <= first; i++) {
+			cells.push(cell(i));
+		}
+		const [ex, ey] = cell(last - 1);
+		const [dx, dy] = [ex - cell(last)[0], ey - cell(last)[1]];
+		cells.push([ex - dy, ey - dx]);
+		if (movedLooseSquare) {
+			cells.push([ex - 2 * dy, ey - 2 * dx]);
+		}
+		return cells.some((p) => this.world.hasObstacle(p));
+	}
+
 	findHorizontalChainMove(): [Move[], [number, number]] | null {
 		let m: Move[] = [];
 		const [minX, minY, maxX, maxY] = this.world.bounds();
@@ -334,6 +378,10 @@ class CompactSortedAlgorithm {
 		if (firstCube.p[0] - lastCube.p[0] <= (movedLooseSquare ? 2 : 1)) {
 			return null;
 		}
+		if (this.chainBlocked(firstCube.p[0], lastCube.p[0],
+				(x) => [x, minY - 1], movedLooseSquare)) {
+			return null;
+		}
 		if (!this.preservesChunkiness(firstCube.p,
 				[lastCube.p[0] - 1, lastCube.p[1] + (movedLooseSquare ? 1 : 0)])) {
 			return null;
@@ -390,6 +438,10 @@ class CompactSortedAlgorithm {
 		if (firstCube.p[1] - lastCube.p[1] <= (movedLooseSquare ? 2 : 1)) {
 			return null;
 		}
+		if (this.chainBlocked(firstCube.p[1], lastCube.p[1],
+				(y) => [minX - 1, y], movedLooseSquare)) {
+			return null;
+		}
 		if (!this.preservesChunkiness(firstCube.p,
 				[lastCube.p[0] + (movedLooseSquare ? 1 : 0), lastCube.p[1] - 1])) {
 			return null;
@@ -10,7 +10,7 @@ class CompactAlgorithm {
 	constructor(public world: World) {}
 
 	*execute(): Algorithm {
-		printStep('Compacting');
+		this.world.tracer.step('Compacting');
 
 		// is there a free move maintaining chunkiness? do it
 		let move: Move[] | null;
@@ -51,7 +51,7 @@ class CompactAlgorithm {
 						(!this.CONSTRAIN_TO_CHUNK_BOUNDS || this.withinChunkBounds(cube.chunkId, target)) &&
 						this.preservesChunkiness(cube.p, target)
 				) {
-					printMiniStep(`Free move`);
+					this.world.tracer.subStep('Free move');
 					return [move];
 				}
 			}
@@ -83,13 +83,14 @@ class CompactAlgorithm {
 
 			// top corner move
 			if (!neighbor['W'] && neighbor['N'] && neighbor['NW'] &&
+					!this.world.hasObstacle([x - 1, y]) &&
 					(!this.CORNER_MOVES_ONLY_BOUNDARY ||
 							(cube.onBoundary && neighbor['N'].onBoundary && neighbor['NW'].onBoundary)) &&
 					cube.componentStatus === ComponentStatus.CHUNK_STABLE &&
 					neighbor['N'].componentStatus === ComponentStatus.CHUNK_STABLE) {
 
 				if (this.preservesChunkiness(neighbor['N'].p, [x - 1, y])) {
-					printMiniStep(`Top corner move`);
+					this.world.tracer.subStep('Top corner move');
 					return [
 						new Move(this.world, cube.p, MoveDirection.W),
 						new Move(this.world, neighbor['N'].p, MoveDirection.S),
@@ -98,13 +99,14 @@ class CompactAlgorithm {
 			}
 
 			if (!neighbor['S'] && neighbor['E'] && neighbor['SE'] &&
+					!this.world.hasObstacle([x, y - 1]) &&
 					(!this.CORNER_MOVES_ONLY_BOUNDARY ||
 							(cube.onBoundary && neighbor['E'].onBoundary && neighbor['SE'].onBoundary)) &&
 					cube.componentStatus === ComponentStatus.CHUNK_STABLE &&
 					neighbor['E'].componentStatus === ComponentStatus.CHUNK_STABLE) {
 
 				if (this.preservesChunkiness(neighbor['E'].p, [x, y - 1])) {
-					printMiniStep(`Top corner move`);
+					this.world.tracer.subStep('Top corner move');
 					return [
 						new Move(this.world, cube.p, MoveDirection.S),
 						new Move(this.world, neighbor['E'].p, MoveDirection.W),
@@ -119,13 +121,14 @@ class CompactAlgorithm {
 
 			// bottom corner move
 			if (!neighbor['W'] && neighbor['S'] && neighbor['SW'] &&
+					!this.world.hasObstacle([x - 1, y]) &&
 					(!this.CORNER_MOVES_ONLY_BOUNDARY ||
 							(cube.onBoundary && neighbor['S'].onBoundary && neighbor['SW'].onBoundary)) &&
 					cube.componentStatus === ComponentStatus.CHUNK_STABLE &&
 					neighbor['S'].componentStatus === ComponentStatus.CHUNK_STABLE) {
 
 				if (this.preservesChunkiness(neighbor['S'].p, [x - 1, y])) {
-					printMiniStep(`Bottom corner move`);
+					this.world.tracer.subStep('Bottom corner move');
 					return [
 						new Move(this.world, cube.p, MoveDirection.W),
 						new Move(this.world, neighbor['S'].p, MoveDirection.N),
@@ -134,13 +137,14 @@ class CompactAlgorithm {
 			}
 
 			if (!neighbor['N'] && neighbor['E'] && neighbor['NE'] &&
+					!this.world.hasObstacle([x, y + 1]) &&
 					(!this.CORNER_MOVES_ONLY_BOUNDARY ||
 							(cube.onBoundary && neighbor['E'].onBoundary && neighbor['NE'].onBoundary)) &&
 					cube.componentStatus === ComponentStatus.CHUNK_STABLE &&
 					neighbor['E'].componentStatus === ComponentStatus.CHUNK_STABLE) {
 
 				if (this.preservesChunkiness(neighbor['E'].p, [x, y + 1])) {
-					printMiniStep(`Bottom corner move`);
+					this.world.tracer.subStep('Bottom corner move');
 					return [
 						new Move(this.world, cube.p, MoveDirection.N),
 						new Move(this.world, neighbor['E'].p, MoveDirection.W),
@@ -202,6 +206,28 @@ class CompactAlgorithm {
 		return true;
 	}
 
+	/**
+	 * Checks if a chain move from the first to the last coordinate would run
+	 * into an obstacle. The chain runs along the cells given by `cell`, one
+	 * step outside the configuration, and ends one step beyond the last
+	 * coordinate (two steps if a loose square is moved out of the way).
+	 */
+	chainBlocked(first: number, last: number,
+			cell: (i: number) => [number, number],
+			movedLooseSquare: boolean): boolean {
+		let cells: [number, number][] = [];
+		for (let i = last - 1; i <= first; i++) {
+			cells.push(cell(i));
+		}
+		const [ex, ey] = cell(last - 1);
+		const [dx, dy] = [ex - cell(last)[0], ey - cell(last)[1]];
+		cells.push([ex - dy, ey - dx]);
+		if (movedLooseSquare) {
+			cells.push([ex - 2 * dy, ey - 2 * dx]);
+		}
+		return cells.some((p) => this.world.hasObstacle(p));
+	}
+
 	findHorizontalChainMove(): Move[] | null {
 		let moves: Move[] = [];
 		const [minX, minY, maxX, maxY] = this.world.bounds();
@@ -240,6 +266,10 @@ class CompactAlgorithm {
 		if (lastCube.p[0] === minX) {
 			return null;
 		}
+		if (this.chainBlocked(firstCube.p[0], lastCube.p[0],
+				(x) => [x, minY - 1], moves.length > 0)) {
+			return null;
+		}
 		moves.push(new Move(this.world, firstCube.p, MoveDirection.SW));
 		for (let x = firstCube.p[0] - 1; x > lastCube.p[0]; x--) {
 			moves.push(new Move(this.world, [x, minY - 1], MoveDirection.W));
@@ -287,6 +317,10 @@ class CompactAlgorithm {
 		if (lastCube.p[1] === minY) {
 			return null;
 		}
+		if (this.chainBlocked(firstCube.p[1], lastCube.p[1],
+				(y) => [minX - 1, y], moves.length > 0)) {
+			return null;
+		}
 		moves.push(new Move(this.world, firstCube.p, MoveDirection.WS));
 		for (let y = firstCube.p[1] - 1; y > lastCube.p[1]; y--) {
 			moves.push(new Move(this.world, [minX - 1, y], MoveDirection.S));
@@ -1,19 +0,0 @@
-import {Algorithm, World} from '../world';
-
-import {GatherAlgorithm} from './gather';
-import {CompactAlgorithm} from './compact';
-import {CompactSortedAlgorithm} from './compact-sorted';
-import {CanonicalizeAlgorithm} from './canonicalize';
-
-class CompleteAlgorithm {
-
-	constructor(public world: World) {}
-
-	*execute(): Algorithm {
-		yield* new GatherAlgorithm(this.world).execute();
-		yield* new CompactSortedAlgorithm(this.world).execute();
-	}
-}
-
-export {CompleteAlgorithm};
-
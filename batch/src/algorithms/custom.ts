@@ -1,4 +1,5 @@
 import {Algorithm, Move, World} from '../world';
+import {Transform} from '../geometry';
 
 class CustomAlgorithm {
 
@@ -6,51 +7,45 @@ class CustomAlgorithm {
 
 	*execute(): Algorithm {
 		const sequence: any = JSON.parse(this.moveJson);
-		const bounds = this.world.bounds();
+		const frame = Transform.fromMsdp(this.world.bounds());
 
 		for (let i = 0; i < sequence['movepaths'].length; i++) {
 			const a = sequence['movepaths'][i];
-			printMiniStep(`Running move path ${i}`);
-			let c = this.world.getCube(this.convert(a[0], bounds));
+			this.world.tracer.subStep('Running move path', `${i}`);
+			let c = this.world.getCube(frame.apply(a[0]));
 			if (!c) {
 				throw "Custom move path tried to move a non-existing cube at " +
-						this.convert(a[0], bounds);
+						frame.apply(a[0]);
 			}
 			let cube = c;
 			for (let i = 1; i < a.length; i++) {
-				const m = this.world.getMoveTo(cube, this.convert(a[i], bounds));
+				const m = this.world.getMoveTo(cube, frame.apply(a[i]));
 				if (m !== null && m.isValid()) {
 					yield m;
 				} else {
 					// because of bugs in the original implementation, it may return
 					// invalid moves; try to fix that by just taking the shortest
 					// move path
-					try {
-						yield* this.world.shortestMovePath(
-							cube.p, this.convert(a[i], bounds));
-					} catch (e) {
+					const path = this.world.findMovePath(
+							cube.p, frame.apply(a[i]));
+					if (path === null) {
 						// there are even cases where the destination of the move
 						// would disconnect the configuration, hence no move path
 						// exists at all
 						// in that case, skip this point in the list entirely
 						continue;
 					}
+					yield* path;
 				}
-				let c = this.world.getCube(this.convert(a[i], bounds));
+				let c = this.world.getCube(frame.apply(a[i]));
 				if (!c) {
 					throw "Custom move path tried to move a non-existing cube at " +
-							this.convert(a[i], bounds);
+							frame.apply(a[i]);
 				}
 				cube = c;
 			}
 		}
 	}
-
-	private convert(c: [number, number],
-			bounds: [number, number, number, number]): [number, number] {
-		const [minX, minY, maxX, maxY] = bounds;
-		return [c[1] - minX - 1, maxX - c[0] - minY + 1];
-	}
 }
 
 export {CustomAlgorithm};
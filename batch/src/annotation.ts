@@ -0,0 +1,29 @@
+/**
+ * Structured information that an algorithm emits alongside its moves, to show
+ * what it is doing. All coordinates are cells of the world.
+ *
+ *  * cell: a highlighted cell, such as the light square being gathered;
+ *
+ *  * arrow: an arrow from one cell to another, such as from the square that
+ *    is moved to the cell it should end up in;
+ *
+ *  * path: a polyline through a sequence of cells, such as a boundary path.
+ *
+ * The optional label describes the role of the annotation.
+ */
+type Annotation = {
+	type: 'cell';
+	p: [number, number];
+	label?: string;
+} | {
+	type: 'arrow';
+	from: [number, number];
+	to: [number, number];
+	label?: string;
+} | {
+	type: 'path';
+	cells: [number, number][];
+	label?: string;
+};
+
+export {Annotation};
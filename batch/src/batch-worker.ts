@@ -0,0 +1,45 @@
+import {World} from './world';
+import {LowerBound} from './lower-bound';
+import {findAlgorithm} from './algorithms/registry';
+import {Tracer} from './tracer';
+import {Watchdog} from './watchdog';
+import {createPhases, runPhases} from './common';
+
+// worker thread for the parallel subcommand: runs a single instance and
+// reports the results to the main thread
+
+const fs = require('fs');
+const {parentPort, workerData} = require('worker_threads');
+
+const configurationJson = fs.readFileSync(workerData.file, 'utf-8');
+
+let world = new World();
+world.deserialize(configurationJson);
+const [minX, minY, maxX, maxY] = world.bounds();
+
+// report the instance metadata first, so that it is available even if the
+// run times out
+parentPort.postMessage({
+	'type': 'metadata',
+	'n': world.cubes.length,
+	'width': maxX - minX + 1,
+	'height': maxY - minY + 1,
+	'lowerBound': new LowerBound(world).monotone()
+});
+
+let watchdog = new Watchdog(world);
+watchdog.maxMoves = workerData.maxMoves;
+watchdog.maxVisits = workerData.maxVisits;
+world.tracer = new Tracer(watchdog);
+
+const counts = runPhases(world,
+		createPhases(workerData.algorithm, world, workerData.options));
+let phases: {[phase: string]: number} = {};
+findAlgorithm(workerData.algorithm).phases.forEach((phase, i) => {
+	phases[phase] = counts[i];
+});
+parentPort.postMessage({
+	'type': 'result',
+	'phases': phases,
+	'moves': counts.reduce((a, b) => a + b, 0)
+});
@@ -0,0 +1,18 @@
+import {Options} from '../options';
+import {registeredAlgorithms} from '../algorithms/registry';
+
+/**
+ * Lists the algorithms that can be selected with --algorithm, with their
+ * options.
+ */
+function algorithmsCommand(options: Options): void {
+	options.files(0, 0, 'no arguments');
+	for (const algorithm of registeredAlgorithms()) {
+		console.log(`${algorithm.name}\t${algorithm.description}`);
+		for (const option of algorithm.options) {
+			console.log(`\t--${option.name} <${option.type} file>\t${option.description}`);
+		}
+	}
+}
+
+export {algorithmsCommand};
@@ -0,0 +1,148 @@
+import {World} from '../world';
+import {Options} from '../options';
+import {LowerBound} from '../lower-bound';
+import {findAlgorithm} from '../algorithms/registry';
+import {Tracer, TraceSink, MultiSink, BreakdownSink} from '../tracer';
+import {InvariantChecker} from '../invariants';
+import {Symmetry} from '../geometry';
+import {createSymmetricPhases} from '../symmetric';
+import {MoveStep} from '../verify';
+import {Phase, readAlgorithmOptions, createPhases, runPhases, createWatchdog,
+	optimizeRun, scheduleRun, SummaryPrinter} from '../common';
+
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Runs an algorithm on multiple instances, printing a summary line for each
+ * of them: the number of moves in every phase, the total number of moves, a
+ * lower bound on the number of moves needed to reach any xy-monotone
+ * configuration, and the ratio between the total and the lower bound (both
+ * `-` if the move model has no such bound, see LowerBound). With
+ * --breakdown, the number of moves per step of each phase is added as well.
+ * With --check, the invariants from the paper are checked during every run
+ * (see InvariantChecker); a violation is reported as an error, and so are
+ * runs that seem not to terminate, with --max-moves or --max-visits (see
+ * createWatchdog()). With --symmetries, the algorithm is run under all
+ * symmetries of the grid, the shortest run counts and its symmetry is added
+ * to the summary (see findBestSymmetry()). With --optimize, the number of
+ * moves after optimization (see MoveOptimizer) is added, as well as the
+ * number of moves saved per phase. With --schedule, the number of parallel
+ * rounds the (optimized) moves can be packed into (see Scheduler) is added.
+ * With --out, the summary lines are written to the given file as well; with
+ * --quiet, they are not printed to the console.
+ */
+function batchCommand(options: Options): void {
+	const files = options.files(1, Infinity, 'one or more instance files');
+	const algorithm = options.get('algorithm', 'gc');
+	const registered = findAlgorithm(algorithm);
+	const phaseNames = registered.phases;
+	const optionValues = readAlgorithmOptions(registered, options);
+	const summaryPrinter = new SummaryPrinter(options.get('output-format', 'text'),
+			options.has('out') ? options.get('out', '') : null,
+			options.flag('quiet'));
+	const printBreakdown = options.flag('breakdown');
+	const check = options.flag('check');
+	const symmetric = options.flag('symmetries');
+	const optimize = options.flag('optimize');
+	const schedule = options.flag('schedule');
+
+	for (const configurationFile of files) {
+		const configurationJson = fs.readFileSync(configurationFile, 'utf-8');
+		const name = path.basename(configurationFile);
+
+		let world = new World();
+		world.deserialize(configurationJson);
+		const breakdown = new BreakdownSink();
+		let sinks: TraceSink[] = [createWatchdog(world, options)];
+		if (printBreakdown) {
+			sinks.push(breakdown);
+		}
+		if (check) {
+			sinks.push(new InvariantChecker(world));
+		}
+		world.tracer = new Tracer(new MultiSink(sinks));
+		const lowerBound = new LowerBound(world).monotone();
+
+		let summary: {[key: string]: string | number | null} = {
+			'instance': name,
+			'algorithm': algorithm
+		};
+		phaseNames.forEach((phase) => summary[phase] = null);
+		summary['moves'] = null;
+		summary['lowerBound'] = lowerBound;
+		summary['ratio'] = null;
+		summary['error'] = null;
+		if (symmetric) {
+			summary['symmetry'] = null;
+		}
+		if (optimize) {
+			summary['optimized'] = null;
+			summary['saved'] = null;
+		}
+		if (schedule) {
+			summary['rounds'] = null;
+		}
+		if (printBreakdown) {
+			summary['breakdown'] = null;
+		}
+
+		let counts: number[];
+		try {
+			let phases: Phase[];
+			if (symmetric) {
+				let symmetry: Symmetry;
+				[phases, symmetry] = createSymmetricPhases(algorithm, world,
+						optionValues, (copy) => createWatchdog(copy, options));
+				summary['symmetry'] = symmetry.name;
+			} else {
+				phases = createPhases(algorithm, world, optionValues);
+			}
+			counts = runPhases(world, phases);
+		} catch (e) {
+			summary['error'] = ('' + e).split('\n')[0];
+			summaryPrinter.print(summary,
+					`${name}\t\x1b[31m\x1b[1m<exception>\x1b[0m`);
+			continue;
+		}
+
+		const total = counts.reduce((a, b) => a + b, 0);
+		const ratio = lowerBound === null || lowerBound === 0 ?
+				null : total / lowerBound;
+		phaseNames.forEach((phase, i) => summary[phase] = counts[i]);
+		summary['moves'] = total;
+		summary['ratio'] = ratio;
+
+		let columns: (string | number)[] = [name];
+		if (counts.length > 1) {
+			columns.push(...counts);
+		}
+		columns.push(total, lowerBound === null ? '-' : lowerBound,
+				ratio === null ? '-' : ratio.toFixed(2));
+		if (symmetric) {
+			columns.push(summary['symmetry']!);
+		}
+		let moves = world.getHistory();
+		if (optimize) {
+			const [optimizedMoves, optimized, saved] = optimizeRun(
+					configurationJson, moves, phaseNames, counts);
+			moves = optimizedMoves;
+			summary['optimized'] = optimized.reduce((a, b) => a + b, 0);
+			summary['saved'] = saved;
+			columns.push(summary['optimized']!);
+		}
+		if (schedule) {
+			summary['rounds'] = scheduleRun(configurationJson,
+					moves.map((move): MoveStep =>
+						[move.sourcePosition(), move.targetPosition()])).length;
+			columns.push(summary['rounds']!);
+		}
+		if (printBreakdown) {
+			summary['breakdown'] = breakdown.toString();
+			columns.push(breakdown.toString());
+		}
+		summaryPrinter.print(summary, columns.join('\t'));
+	}
+}
+
+export {batchCommand};
@@ -0,0 +1,38 @@
+import {Options} from '../options';
+import {Random, GrowthModel, growthModels, InstanceGenerator} from '../generator';
+
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Generates random instances, using seeds --seed, --seed + 1, ..., and writes
+ * them to the directory given by --out.
+ */
+function generateCommand(options: Options): void {
+	const [width, height, percentage] = options
+		.files(3, 3, 'width, height and fill percentage')
+		.map((arg) => Number(arg));
+	const model = <GrowthModel> options.get('model', 'shrink');
+	if (growthModels.indexOf(model) === -1) {
+		throw new Error(`Unknown model ${model} ` +
+				`(choose from ${growthModels.join(', ')})`);
+	}
+	const seed = options.getNumber('seed', 0);
+	const count = options.getNumber('count', 10);
+	const directory = options.get('out', '.');
+
+	// keep the file names of the original instances for the default model
+	const prefix = model === 'shrink' ? '' : model + '_';
+
+	for (let i = 0; i < count; i++) {
+		const generator = new InstanceGenerator(width, height, new Random(seed + i));
+		const world = generator.generate(model, percentage);
+		const fileName = path.join(directory,
+				`${prefix}gridsize_${width}x${height}_` +
+				`filledpercentage_${percentage}_id_${i}.json`);
+		fs.writeFileSync(fileName, world.serialize());
+		console.log(`${fileName}: ${world.cubes.length} squares`);
+	}
+}
+
+export {generateCommand};
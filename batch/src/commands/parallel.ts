@@ -0,0 +1,333 @@
+import {Options} from '../options';
+import {findAlgorithm} from '../algorithms/registry';
+import {readAlgorithmOptions} from '../common';
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const workerThreads = require('worker_threads');
+
+/**
+ * Result of running an algorithm on a single instance.
+ */
+type BatchResult = {
+	// the instance file, as given on the command line
+	instance: string;
+	algorithm: string;
+	status: 'ok' | 'error' | 'timeout';
+
+	// metadata from the instance's file name, if it follows the pattern
+	// gridsize_{w}x{h}_filledpercentage_{p}_id_{i}.json
+	gridWidth: number | null;
+	gridHeight: number | null;
+	fill: number | null;
+	id: number | null;
+
+	// metadata computed by the worker
+	n: number | null;
+	width: number | null;
+	height: number | null;
+	lowerBound: number | null;
+
+	// number of moves in every phase of the algorithm
+	phases: {[phase: string]: number} | null;
+	moves: number | null;
+	ratio: number | null;
+
+	time: number;
+	error: string | null;
+};
+
+const columns = ['instance', 'algorithm', 'status',
+	'gridWidth', 'gridHeight', 'fill', 'id',
+	'n', 'width', 'height', 'lowerBound',
+	'moves', 'ratio', 'time', 'error'];
+
+/**
+ * A result in an existing output file.
+ */
+type PreviousResult = {
+	instance: string;
+	status: string;
+	line: string;
+};
+
+/**
+ * Runs an algorithm on multiple instances in parallel worker threads, and
+ * appends the results to a JSON Lines file (or a CSV file, if the output file
+ * name ends in .csv). Instances that already have a result in the output file
+ * are skipped, so that an interrupted batch can be resumed; results are
+ * matched by the path of the instance file as given. With --retry-failed,
+ * instances whose result is an error or a timeout are run again, and their
+ * old result is removed from the output file.
+ */
+function parallelCommand(options: Options): void {
+	const files = options.files(1, Infinity, 'one or more instance files');
+	const algorithm = options.get('algorithm', 'gc');
+	const registered = findAlgorithm(algorithm);
+	const phaseNames = registered.phases;
+	const optionValues = readAlgorithmOptions(registered, options);
+	const outputFile = options.get('out', 'results.jsonl');
+	const csv = path.extname(outputFile) === '.csv';
+	const csvColumns = columns.slice(0, 11).concat(phaseNames, columns.slice(11));
+
+	// resume: skip the instances that already have a result
+	let previous = readPreviousResults(outputFile, csv);
+	if (options.flag('retry-failed')) {
+		const given = new Set(files);
+		const kept = previous.filter((result) =>
+				result.status === 'ok' || !given.has(result.instance));
+		if (kept.length < previous.length) {
+			console.log(`Retrying ${previous.length - kept.length} ` +
+					`instances that failed or timed out`);
+			rewriteResults(outputFile, csv, kept);
+		}
+		previous = kept;
+	}
+	const done = new Set(previous.map((result) => result.instance));
+	let queue: string[] = files.filter((file) => !done.has(file));
+	if (queue.length < files.length) {
+		console.log(`Resuming: skipping ${files.length - queue.length} ` +
+				`instances that are already in ${outputFile}`);
+	}
+	if (csv && (!fs.existsSync(outputFile) ||
+			fs.readFileSync(outputFile, 'utf-8') === '')) {
+		fs.writeFileSync(outputFile, csvColumns.join(',') + '\n');
+	}
+
+	const startNext = function (): void {
+		const file = queue.shift();
+		if (file === undefined) {
+			return;
+		}
+		runInstance(file, algorithm, optionValues, options).then((result) => {
+			writeResult(result, outputFile, csv ? csvColumns : null);
+			const summary = result.status === 'ok' ?
+					`${result.moves}\t${result.lowerBound === null ? '-' : result.lowerBound}\t` +
+					`${(result.time / 1000).toFixed(1)}s` :
+					`\x1b[31m\x1b[1m<${result.status}>\x1b[0m ${result.error || ''}`;
+			console.log(`${result.instance}\t${summary}`);
+			startNext();
+		});
+	};
+
+	const jobs = Math.max(1, options.getNumber('jobs', os.cpus().length));
+	for (let i = 0; i < jobs; i++) {
+		startNext();
+	}
+}
+
+/**
+ * Runs the algorithm on the given instance in a worker thread. The returned
+ * promise never rejects; failures are reported in the result instead.
+ */
+function runInstance(file: string, algorithm: string,
+		optionValues: {[name: string]: string},
+		options: Options): Promise<BatchResult> {
+	const name = path.basename(file);
+	const match = name.match(
+			/gridsize_(\d+)x(\d+)_filledpercentage_(\d+)_id_(\d+)/);
+	let result: BatchResult = {
+		instance: file,
+		algorithm: algorithm,
+		status: 'error',
+		gridWidth: match ? parseInt(match[1]) : null,
+		gridHeight: match ? parseInt(match[2]) : null,
+		fill: match ? parseInt(match[3]) : null,
+		id: match ? parseInt(match[4]) : null,
+		n: null,
+		width: null,
+		height: null,
+		lowerBound: null,
+		phases: null,
+		moves: null,
+		ratio: null,
+		time: 0,
+		error: null
+	};
+
+	return new Promise((resolve) => {
+		const start = Date.now();
+		let finished = false;
+		const finish = function (status: 'ok' | 'error' | 'timeout',
+				error: string | null): void {
+			if (finished) {
+				return;
+			}
+			finished = true;
+			if (timer !== null) {
+				clearTimeout(timer);
+			}
+			result.status = status;
+			result.error = error;
+			result.time = Date.now() - start;
+			if (result.moves !== null && result.lowerBound) {
+				result.ratio = result.moves / result.lowerBound;
+			}
+			worker.terminate();
+			resolve(result);
+		};
+
+		const timeout = options.getNumber('timeout', 0);
+		const timer = timeout > 0 ? setTimeout(() => {
+			finish('timeout', `no result after ${timeout} s`);
+		}, timeout * 1000) : null;
+
+		const workerFile = path.join(__dirname, '..', 'batch-worker.js');
+		const worker = new workerThreads.Worker(workerFile, {
+			workerData: {
+				file: file,
+				algorithm: algorithm,
+				options: optionValues,
+				maxMoves: options.getNumber('max-moves', Infinity),
+				maxVisits: options.getNumber('max-visits', Infinity)
+			}
+		});
+		worker.on('message', (message: any) => {
+			if (message['type'] === 'metadata') {
+				result.n = message['n'];
+				result.width = message['width'];
+				result.height = message['height'];
+				result.lowerBound = message['lowerBound'];
+			} else {
+				result.phases = message['phases'];
+				result.moves = message['moves'];
+				finish('ok', null);
+			}
+		});
+		worker.on('error', (e: Error) => {
+			finish('error', '' + (e && e.message || e));
+		});
+		worker.on('exit', (code: number) => {
+			finish('error', `worker exited with code ${code}`);
+		});
+	});
+}
+
+/**
+ * Appends a result to the output file.
+ */
+function writeResult(result: BatchResult, outputFile: string,
+		csvColumns: string[] | null): void {
+	let line: string;
+	if (csvColumns !== null) {
+		line = csvColumns.map((column) => {
+			const value = columns.indexOf(column) !== -1 ?
+					(<any> result)[column] :
+					(result.phases ? result.phases[column] : null);
+			if (value === null) {
+				return '';
+			}
+			const text = ('' + value).replace(/\n/g, ' ');
+			if (/[",]/.test(text)) {
+				return '"' + text.replace(/"/g, '""') + '"';
+			}
+			return text;
+		}).join(',');
+	} else {
+		line = JSON.stringify(result);
+	}
+	fs.appendFileSync(outputFile, line + '\n');
+}
+
+/**
+ * Returns the results in the output file, if it exists (for CSV files,
+ * without the header). If the batch got interrupted while writing the last
+ * line, that line is incomplete: it is removed from the file, so that new
+ * results do not get appended to it. Other lines that cannot be read are
+ * skipped.
+ */
+function readPreviousResults(outputFile: string, csv: boolean):
+		PreviousResult[] {
+	if (!fs.existsSync(outputFile)) {
+		return [];
+	}
+	let contents: string = fs.readFileSync(outputFile, 'utf-8');
+	if (contents !== '' && !contents.endsWith('\n')) {
+		contents = contents.substring(0, contents.lastIndexOf('\n') + 1);
+		fs.writeFileSync(outputFile, contents);
+		console.log(`Removed the incomplete last line of ${outputFile}`);
+	}
+	const lines = contents.split('\n')
+		.filter((line: string) => line.trim() !== '');
+
+	let results: PreviousResult[] = [];
+	if (csv) {
+		if (!lines.length) {
+			return results;
+		}
+		const header = parseCsvLine(lines[0]);
+		const instanceColumn = header.indexOf('instance');
+		const statusColumn = header.indexOf('status');
+		for (const line of lines.slice(1)) {
+			const fields = parseCsvLine(line);
+			if (fields.length === header.length) {
+				results.push({
+					instance: fields[instanceColumn],
+					status: fields[statusColumn],
+					line: line
+				});
+			}
+		}
+	} else {
+		for (const line of lines) {
+			try {
+				const result = JSON.parse(line);
+				results.push({
+					instance: result['instance'],
+					status: result['status'],
+					line: line
+				});
+			} catch (e) {
+				// skip lines that got mangled by an earlier interruption
+			}
+		}
+	}
+	return results;
+}
+
+/**
+ * Replaces the results in the output file by the given ones (keeping the
+ * header of a CSV file).
+ */
+function rewriteResults(outputFile: string, csv: boolean,
+		results: PreviousResult[]): void {
+	let lines = results.map((result) => result.line);
+	if (csv) {
+		lines.unshift(fs.readFileSync(outputFile, 'utf-8').split('\n')[0]);
+	}
+	fs.writeFileSync(outputFile, lines.map((line) => line + '\n').join(''));
+}
+
+/**
+ * Splits a line of a CSV file (as written by writeResult()) into its fields.
+ */
+function parseCsvLine(line: string): string[] {
+	let fields: string[] = [];
+	let field = '';
+	let quoted = false;
+	for (let i = 0; i < line.length; i++) {
+		const c = line[i];
+		if (quoted) {
+			if (c === '"' && line[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (c === '"') {
+				quoted = false;
+			} else {
+				field += c;
+			}
+		} else if (c === '"') {
+			quoted = true;
+		} else if (c === ',') {
+			fields.push(field);
+			field = '';
+		} else {
+			field += c;
+		}
+	}
+	fields.push(field);
+	return fields;
+}
+
+export {parallelCommand};
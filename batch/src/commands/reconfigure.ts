@@ -0,0 +1,52 @@
+import {World} from '../world';
+import {Options} from '../options';
+import {ReconfigureAlgorithm} from '../algorithms/reconfigure';
+import {runPhases, printWorld, printError, createTracer,
+	createWatchdog} from '../common';
+
+const fs = require('fs');
+
+/**
+ * Reconfigures a start instance into a target instance with the same number
+ * of squares, printing every move.
+ */
+function reconfigureCommand(options: Options): void {
+	const [configurationFile, targetFile] =
+			options.files(2, 2, 'start and target instance files');
+	const configurationJson = fs.readFileSync(configurationFile, 'utf-8');
+	const targetJson = fs.readFileSync(targetFile, 'utf-8');
+	const quiet = options.flag('quiet');
+
+	let world = new World();
+	world.deserialize(configurationJson);
+	world.tracer = createTracer(options, quiet,
+			[createWatchdog(world, options)]);
+	let bounds = world.bounds();
+	if (!quiet) {
+		printWorld(world, bounds);
+	}
+
+	let counts: number[];
+	try {
+		counts = runPhases(world, [{
+			name: 'reconfigure',
+			algorithm: new ReconfigureAlgorithm(world, targetJson).execute(),
+			marked: true
+		}]);
+	} catch (e) {
+		world.tracer.close();
+		printError('Error in algorithm code:');
+		printWorld(world, bounds);
+		console.log(e);
+		process.exit(1);
+		return;
+	}
+	world.tracer.close();
+
+	if (!quiet) {
+		printWorld(world, world.bounds());
+	}
+	console.log(`Algorithm execution took ${counts[0]} moves`);
+}
+
+export {reconfigureCommand};
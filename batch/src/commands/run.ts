@@ -0,0 +1,176 @@
+import {World} from '../world';
+import {Options} from '../options';
+import {findAlgorithm} from '../algorithms/registry';
+import {TraceSink, BreakdownSink} from '../tracer';
+import {InvariantViolation, InvariantChecker} from '../invariants';
+import {NonTerminationError} from '../watchdog';
+import {Symmetry} from '../geometry';
+import {createSymmetricPhases} from '../symmetric';
+import {MoveStep} from '../verify';
+import {Phase, readAlgorithmOptions, createPhases, runPhases, printWorld, writeIpeFile, printError,
+	createTracer, createWatchdog, optimizeRun, scheduleRun, SummaryPrinter} from '../common';
+
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Runs an algorithm on a single instance, printing every move. With --trace,
+ * all trace events are written to the given file; with --breakdown, the
+ * summary includes the number of moves per step of each phase (for example,
+ * per type of compaction move); with --check, the invariants from the paper
+ * are checked after every move (see InvariantChecker), and the run stops at
+ * the first violation. With --max-moves or --max-visits, runs that seem not
+ * to terminate are aborted (see createWatchdog()). With --symmetries, the
+ * algorithm is run under all symmetries of the grid, and the shortest run is
+ * replayed (see findBestSymmetry()). With --optimize, the moves are shortened
+ * afterwards (see MoveOptimizer), and the number of moves saved is reported.
+ * With --schedule, the (optimized) moves are packed into parallel rounds (see
+ * Scheduler), and the number of rounds is reported.
+ *
+ * If `ipe` is set, Ipe figures are written of the input, of the configuration
+ * after every phase and after every --ipe-every moves, and of the output. If
+ * `moves` is set, the moves are written to a move file (with --schedule, it
+ * contains the moves of each round as well).
+ */
+function runCommand(options: Options, defaultAlgorithm: string,
+		output: {ipe: boolean, moves: boolean}): void {
+	const [configurationFile] = options.files(1, 1, 'one instance file');
+	const configurationJson = fs.readFileSync(configurationFile, 'utf-8');
+	const name = path.basename(configurationFile);
+	const quiet = options.flag('quiet');
+	const ipeEvery = options.getNumber('ipe-every', 50);
+	const ipeDirectory = output.ipe ? options.get('out', 'ipe') : '';
+	const summaryPrinter = new SummaryPrinter(options.get('output-format', 'text'));
+	const breakdown = new BreakdownSink();
+
+	let world = new World();
+	world.deserialize(configurationJson);
+	let sinks: TraceSink[] = [createWatchdog(world, options)];
+	if (options.flag('breakdown')) {
+		sinks.push(breakdown);
+	}
+	if (options.flag('check')) {
+		sinks.push(new InvariantChecker(world));
+	}
+	world.tracer = createTracer(options, quiet, sinks);
+	let bounds = world.bounds();
+	if (!quiet) {
+		printWorld(world, bounds);
+	}
+	if (output.ipe) {
+		writeIpeFile(world, path.join(ipeDirectory, name + '-input.ipe'));
+	}
+
+	const algorithm = options.get('algorithm', defaultAlgorithm);
+	const optionValues = readAlgorithmOptions(findAlgorithm(algorithm), options);
+	let phases: Phase[];
+	let symmetry: Symmetry | null = null;
+	if (options.flag('symmetries')) {
+		[phases, symmetry] = createSymmetricPhases(algorithm, world, optionValues,
+				(copy) => createWatchdog(copy, options));
+	} else {
+		phases = createPhases(algorithm, world, optionValues);
+	}
+	let moves: [[number, number], [number, number]][] = [];
+	let counts: number[];
+	try {
+		counts = runPhases(world, phases, (step) => {
+			const move = world.currentMove!;
+			if (output.moves) {
+				moves.push([move.sourcePosition(), move.targetPosition()]);
+			}
+			if (output.ipe && ipeEvery > 0 && step % ipeEvery === 0) {
+				writeIpeFile(world, path.join(ipeDirectory,
+						name + '-step-' + step + '.ipe'));
+			}
+		}, (phase, step) => {
+			if (!quiet) {
+				console.log(`Time step ${step + 1}. No move left.`);
+				world.markComponents();
+				printWorld(world, bounds);
+			}
+			if (output.ipe && phase !== phases[phases.length - 1]) {
+				writeIpeFile(world, path.join(ipeDirectory,
+						name + '-after-' + phase.name + '.ipe'));
+			}
+		});
+	} catch (e) {
+		world.tracer.close();
+		const violation = e instanceof InvariantViolation;
+		const nonTermination = e instanceof NonTerminationError;
+		printError(violation ? 'Invariant violation:' :
+				nonTermination ? 'Algorithm does not terminate:' :
+				'Error in algorithm code:');
+		world.markComponents();
+		printWorld(world, bounds);
+		console.log(violation || nonTermination ? e.message : e);
+		process.exit(1);
+		return;
+	}
+	world.tracer.close();
+
+	if (output.ipe) {
+		writeIpeFile(world, path.join(ipeDirectory, name + '-output.ipe'));
+	}
+	let optimized: number[] | null = null;
+	let saved = '';
+	if (options.flag('optimize')) {
+		let optimizedMoves;
+		[optimizedMoves, optimized, saved] = optimizeRun(configurationJson,
+				world.getHistory(), phases.map((phase) => phase.name), counts);
+		moves = optimizedMoves.map((move) =>
+				[move.sourcePosition(), move.targetPosition()] as
+				[[number, number], [number, number]]);
+	}
+	let rounds: MoveStep[][] | null = null;
+	if (options.flag('schedule')) {
+		rounds = scheduleRun(configurationJson, optimized !== null ? moves :
+				world.getHistory().map((move): MoveStep =>
+					[move.sourcePosition(), move.targetPosition()]));
+	}
+	if (output.moves) {
+		let file: {[key: string]: MoveStep[] | MoveStep[][]} = {
+			'movepaths': moves
+		};
+		if (rounds !== null) {
+			file['rounds'] = rounds;
+		}
+		fs.writeFileSync(options.get('out', 'out.json'), JSON.stringify(file));
+	}
+
+	const total = counts.reduce((a, b) => a + b, 0);
+	let summary: {[key: string]: string | number | null} = {
+		'instance': name,
+		'algorithm': algorithm
+	};
+	phases.forEach((phase, i) => summary[phase.name] = counts[i]);
+	summary['moves'] = total;
+
+	let text = `Algorithm execution took ${total} moves`;
+	if (phases.length > 1) {
+		text += ' (of which ' + phases
+			.map((phase, i) => `${counts[i]} ${phase.name}`)
+			.join(', ') + ')';
+	}
+	if (symmetry !== null) {
+		summary['symmetry'] = symmetry.name;
+		text += `\nBest symmetry: ${symmetry.name}`;
+	}
+	if (optimized !== null) {
+		const optimizedTotal = optimized.reduce((a, b) => a + b, 0);
+		summary['optimized'] = optimizedTotal;
+		summary['saved'] = saved;
+		text += `\nOptimized to ${optimizedTotal} moves (saved ${saved})`;
+	}
+	if (rounds !== null) {
+		summary['rounds'] = rounds.length;
+		text += `\nParallel schedule: ${rounds.length} rounds`;
+	}
+	if (options.flag('breakdown')) {
+		summary['breakdown'] = breakdown.toString();
+		text += `\nBreakdown: ${breakdown}`;
+	}
+	summaryPrinter.print(summary, text);
+}
+
+export {runCommand};
@@ -0,0 +1,47 @@
+import {World} from '../world';
+import {Options} from '../options';
+import {Verifier} from '../verify';
+import {scheduleRun, printError} from '../common';
+
+const fs = require('fs');
+
+/**
+ * Packs the moves of a move file into parallel rounds (see Scheduler), prints
+ * the number of rounds and the moves in each of them, and writes the rounds
+ * to a file. The moves are verified first, as the scheduler only works for
+ * valid move sequences.
+ */
+function scheduleCommand(options: Options): void {
+	const [configurationFile, moveFile] =
+			options.files(2, 2, 'instance and move files');
+	const configurationJson = fs.readFileSync(configurationFile, 'utf-8');
+	const moveJson = fs.readFileSync(moveFile, 'utf-8');
+
+	let world = new World();
+	world.deserialize(configurationJson);
+	const verifier = new Verifier(world);
+	const moves = verifier.parseMoves(moveJson, options.flag('msdp'));
+	const result = verifier.verify(moves);
+	if (result.invalidMove !== null) {
+		const [from, to] = moves[result.invalidMove];
+		printError(`Move ${result.invalidMove} ` +
+				`(${from[0]}, ${from[1]}) → (${to[0]}, ${to[1]}) ` +
+				`is invalid: ${result.reason}`);
+		process.exit(1);
+		return;
+	}
+
+	const rounds = scheduleRun(configurationJson, moves);
+	if (!options.flag('quiet')) {
+		rounds.forEach((round, i) => {
+			console.log(`Round ${i + 1}: ` + round
+				.map(([from, to]) => `(${from[0]}, ${from[1]}) → (${to[0]}, ${to[1]})`)
+				.join(', '));
+		});
+	}
+	fs.writeFileSync(options.get('out', 'schedule.json'),
+			JSON.stringify({'rounds': rounds}));
+	console.log(`Scheduled ${moves.length} moves in ${rounds.length} rounds`);
+}
+
+export {scheduleCommand};
@@ -0,0 +1,51 @@
+import {World} from '../world';
+import {Options} from '../options';
+import {Shrinker} from '../shrinker';
+import {findAlgorithm} from '../algorithms/registry';
+import {readAlgorithmOptions, printWorld, printError} from '../common';
+
+const fs = require('fs');
+
+/**
+ * Shrinks an instance on which an algorithm fails to a small instance on
+ * which it fails with the same class of error (see Shrinker), and writes the
+ * result to an instance file. With --check, invariant violations count as
+ * failures as well.
+ */
+function shrinkCommand(options: Options): void {
+	const [configurationFile] = options.files(1, 1, 'one instance file');
+	const configurationJson = fs.readFileSync(configurationFile, 'utf-8');
+	const quiet = options.flag('quiet');
+	const algorithm = options.get('algorithm', 'gc');
+	const optionValues = readAlgorithmOptions(findAlgorithm(algorithm), options);
+
+	let world = new World();
+	world.deserialize(configurationJson);
+	const shrinker = new Shrinker(world, algorithm, optionValues);
+	shrinker.maxMoves = options.getNumber('max-moves', shrinker.maxMoves);
+	shrinker.check = options.flag('check');
+
+	const failure = shrinker.failure();
+	if (failure === null) {
+		printError(`Algorithm ${algorithm} does not fail on this instance`);
+		process.exit(1);
+		return;
+	}
+	console.log(`Shrinking ${world.cubes.length} squares, failing with: ` +
+			failure);
+	if (!quiet) {
+		shrinker.onProgress = (squares) =>
+				console.log(`${squares} squares left (after ${shrinker.runs} runs)`);
+	}
+
+	const result = shrinker.shrink();
+	if (!quiet) {
+		result.markComponents();
+		printWorld(result, result.bounds());
+	}
+	console.log(`Shrunk to ${result.cubes.length} squares ` +
+			`in ${shrinker.runs} runs`);
+	fs.writeFileSync(options.get('out', 'shrunk.json'), result.serialize());
+}
+
+export {shrinkCommand};
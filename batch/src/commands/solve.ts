@@ -0,0 +1,49 @@
+import {World} from '../world';
+import {Options} from '../options';
+import {Solver} from '../solver';
+import {findMoveModel} from '../move-model';
+import {printError} from '../common';
+
+const fs = require('fs');
+
+/**
+ * Computes a shortest move sequence to an xy-monotone configuration (or to a
+ * given target) by exhaustive search, and writes it to a move file. The
+ * search uses the move model of the instance, or the one given with
+ * --move-model.
+ */
+function solveCommand(options: Options): void {
+	const [configurationFile] = options.files(1, 1, 'one instance file');
+	const configurationJson = fs.readFileSync(configurationFile, 'utf-8');
+
+	let world = new World();
+	world.deserialize(configurationJson);
+	if (options.has('move-model')) {
+		world.model = findMoveModel(options.get('move-model', ''));
+	}
+	const solver = new Solver(world);
+	solver.maxStates = options.getNumber('max-states', solver.maxStates);
+
+	let moves;
+	if (options.has('target')) {
+		let target = new World();
+		target.deserialize(fs.readFileSync(options.get('target', ''), 'utf-8'));
+		moves = solver.solveTarget(target.cubes.map((cube) => cube.p));
+	} else {
+		moves = solver.solveMonotone();
+	}
+
+	if (moves === null) {
+		printError(`No solution found after visiting ` +
+				`${solver.statesVisited} configurations`);
+		process.exit(1);
+		return;
+	}
+
+	console.log(`Optimal solution takes ${moves.length} moves ` +
+			`(visited ${solver.statesVisited} configurations)`);
+	fs.writeFileSync(options.get('out', 'out.json'),
+			JSON.stringify({'movepaths': moves}));
+}
+
+export {solveCommand};
@@ -0,0 +1,58 @@
+import {Options} from '../options';
+import {Random, GrowthModel, growthModels, InstanceGenerator} from '../generator';
+import {findAlgorithm} from '../algorithms/registry';
+import {readAlgorithmOptions, createPhases, runPhases} from '../common';
+
+/**
+ * Checks that large instances can be handled under the default Node settings
+ * (in particular, without increasing the stack size): generates a random
+ * size × size instance (default 300 × 300), computes its components and runs
+ * the first --moves moves (default 100) of the algorithm on it. Running the
+ * algorithm to the end would take too long for such instances.
+ */
+function stressCommand(options: Options): void {
+	const size = Number(options.files(0, 1, 'at most a grid size')[0] || '300');
+	const model = <GrowthModel> options.get('model', 'eden');
+	if (growthModels.indexOf(model) === -1) {
+		throw new Error(`Unknown model ${model} ` +
+				`(choose from ${growthModels.join(', ')})`);
+	}
+	const percentage = options.getNumber('percentage', 50);
+	const maxMoves = options.getNumber('moves', 100);
+	const algorithm = options.get('algorithm', 'gc');
+	const registered = findAlgorithm(algorithm);
+	const optionValues = readAlgorithmOptions(registered, options);
+
+	const start = Date.now();
+	const elapsed = () => `${((Date.now() - start) / 1000).toFixed(1)}s`;
+
+	const generator = new InstanceGenerator(size, size,
+			new Random(options.getNumber('seed', 0)));
+	const world = generator.generate(model, percentage);
+	console.log(`Generated a ${size}x${size} instance with ` +
+			`${world.cubes.length} squares (${elapsed()})`);
+
+	world.markComponents();
+	console.log(`Computed the components (${elapsed()})`);
+
+	// runPhases cannot be interrupted in between moves, so stop it by
+	// throwing from the callback
+	const stop = new Error('stop');
+	let moves = 0;
+	try {
+		runPhases(world, createPhases(algorithm, world, optionValues), () => {
+			if (moves === maxMoves) {
+				throw stop;
+			}
+			moves++;
+		});
+	} catch (e) {
+		if (e !== stop) {
+			throw e;
+		}
+	}
+	console.log(`Ran ${moves} moves of ${algorithm} (${elapsed()})`);
+	console.log('Stress test succeeded');
+}
+
+export {stressCommand};
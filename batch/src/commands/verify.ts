@@ -0,0 +1,76 @@
+import {World} from '../world';
+import {Options} from '../options';
+import {Verifier} from '../verify';
+import {findMoveModel} from '../move-model';
+import {printWorld, printError} from '../common';
+
+const fs = require('fs');
+
+/**
+ * Replays a move file on an instance and reports the first invalid move.
+ * Optionally checks that the result is xy-monotone (--monotone) or equal to a
+ * target instance (--target). The moves are checked in the move model of the
+ * instance, or the one given with --move-model.
+ *
+ * Every move moves a single existing square to an empty cell, so replaying
+ * the moves preserves the number of squares. Hence the number of squares can
+ * only differ from that of the target, which is reported separately (as no
+ * move sequence can reach such a target).
+ */
+function verifyCommand(options: Options): void {
+	const [configurationFile, moveFile] =
+			options.files(2, 2, 'instance and move files');
+	const configurationJson = fs.readFileSync(configurationFile, 'utf-8');
+	const moveJson = fs.readFileSync(moveFile, 'utf-8');
+
+	let world = new World();
+	world.deserialize(configurationJson);
+	if (options.has('move-model')) {
+		world.model = findMoveModel(options.get('move-model', ''));
+	}
+	const verifier = new Verifier(world);
+	const moves = verifier.parseMoves(moveJson, options.flag('msdp'));
+
+	let errors: string[] = [];
+
+	const result = verifier.verify(moves);
+	if (result.invalidMove !== null) {
+		const [from, to] = moves[result.invalidMove];
+		errors.push(`Move ${result.invalidMove} ` +
+				`(${from[0]}, ${from[1]}) → (${to[0]}, ${to[1]}) ` +
+				`is invalid: ${result.reason}`);
+	} else {
+		console.log(`All ${moves.length} moves are valid`);
+	}
+
+	if (options.flag('monotone') && result.invalidMove === null &&
+			!world.isXYMonotone()) {
+		errors.push('Final configuration is not xy-monotone');
+	}
+
+	if (options.has('target')) {
+		let target = new World();
+		target.deserialize(fs.readFileSync(options.get('target', ''), 'utf-8'));
+		if (target.cubes.length !== world.cubes.length) {
+			errors.push(`The target has ${target.cubes.length} squares, but ` +
+					`the instance has ${world.cubes.length}`);
+		} else if (result.invalidMove === null &&
+				target.cubes.some((cube) => !world.hasCube(cube.p))) {
+			errors.push('Final configuration does not equal the target');
+		}
+	}
+
+	if (!options.flag('quiet')) {
+		world.markComponents();
+		printWorld(world, world.bounds());
+	}
+
+	if (errors.length) {
+		errors.forEach(printError);
+		process.exit(1);
+		return;
+	}
+	console.log('Verification succeeded');
+}
+
+export {verifyCommand};
@@ -0,0 +1,291 @@
+import {Algorithm, Move, World} from './world';
+import {ComponentStatus} from './cube';
+import {RegisteredAlgorithm, findAlgorithm} from './algorithms/registry';
+import {Options} from './options';
+import {Tracer, TraceSink, ConsoleSink, JsonLinesSink, MultiSink} from './tracer';
+import {Watchdog} from './watchdog';
+import {MoveOptimizer} from './optimizer';
+import {Scheduler} from './schedule';
+import {MoveStep} from './verify';
+
+const fs = require('fs');
+
+// functionality shared by the subcommands of the command-line interface
+
+declare global {
+	interface Array<T> {
+		min(): number;
+		max(): number;
+	}
+}
+
+Array.prototype.min = function<T extends number>(): number {
+	let minimum = Infinity;
+	for (let i = 0; i < this.length; i++) {
+		minimum = Math.min(minimum, this[i]);
+	}
+	return minimum;
+}
+
+Array.prototype.max = function<T extends number>(): number {
+	let maximum = -Infinity;
+	for (let i = 0; i < this.length; i++) {
+		maximum = Math.max(maximum, this[i]);
+	}
+	return maximum;
+}
+
+/**
+ * Creates a tracer for a command: it prints the steps and moves of the
+ * algorithm to the console (unless quiet is set), writes all events to the
+ * JSON Lines file given with --trace (if any), and sends them to the extra
+ * sinks.
+ */
+function createTracer(options: Options, quiet: boolean,
+		extraSinks: TraceSink[] = []): Tracer {
+	let sinks = extraSinks.slice();
+	if (!quiet) {
+		sinks.push(new ConsoleSink());
+	}
+	if (options.has('trace')) {
+		sinks.push(new JsonLinesSink(options.get('trace', '')));
+	}
+	return new Tracer(new MultiSink(sinks));
+}
+
+/**
+ * Creates a watchdog for a run on the given world (see Watchdog), with the
+ * move budget given with --max-moves and the maximum number of times a
+ * configuration may be reached given with --max-visits (both default none).
+ */
+function createWatchdog(world: World, options: Options): Watchdog {
+	let watchdog = new Watchdog(world);
+	watchdog.maxMoves = options.getNumber('max-moves', watchdog.maxMoves);
+	watchdog.maxVisits = options.getNumber('max-visits', watchdog.maxVisits);
+	return watchdog;
+}
+
+/**
+ * Optimizes the moves of a run on the given instance (see MoveOptimizer),
+ * given the names of its phases and the number of moves in each of them.
+ * Returns the optimized moves, the number of optimized moves per phase, and a
+ * description of the number of moves saved per phase (such as
+ * `12 gather, 3 compact`).
+ */
+function optimizeRun(configurationJson: string, moves: Move[],
+		phaseNames: string[], counts: number[]):
+		[Move[], number[], string] {
+	let start = new World();
+	start.deserialize(configurationJson);
+	const [optimized, optimizedCounts] =
+			new MoveOptimizer(start).optimize(moves, counts);
+	const saved = phaseNames
+		.map((phase, i) => `${counts[i] - optimizedCounts[i]} ${phase}`)
+		.join(', ');
+	return [optimized, optimizedCounts, saved];
+}
+
+/**
+ * Packs the moves of a run into parallel rounds (see Scheduler), given the
+ * instance it started from. Returns the moves in each round.
+ */
+function scheduleRun(configurationJson: string, moves: MoveStep[]):
+		MoveStep[][] {
+	let start = new World();
+	start.deserialize(configurationJson);
+	return new Scheduler(start).schedule(moves)
+		.map((round) => round.map((i) => moves[i]));
+}
+
+/**
+ * A part of an algorithm run.
+ */
+type Phase = {
+	name: string;
+	algorithm: Algorithm;
+	marked: boolean;
+};
+
+/**
+ * Returns the values of the options of the given algorithm. As all options are
+ * JSON files, the value of option --name is the contents of the file it
+ * names.
+ */
+function readAlgorithmOptions(algorithm: RegisteredAlgorithm,
+		options: Options): {[name: string]: string} {
+	let values: {[name: string]: string} = {};
+	for (const option of algorithm.options) {
+		if (!options.has(option.name)) {
+			throw new Error(`Algorithm ${algorithm.name} requires ` +
+					`--${option.name} <${option.description}>`);
+		}
+		values[option.name] = fs.readFileSync(options.get(option.name, ''), 'utf-8');
+	}
+	return values;
+}
+
+/**
+ * Returns the phases to run for the algorithm with the given name.
+ */
+function createPhases(name: string, world: World,
+		optionValues: {[name: string]: string}): Phase[] {
+	const algorithm = findAlgorithm(name);
+	return algorithm.create(world, optionValues).map((runner, i) => ({
+		name: algorithm.phases[i],
+		algorithm: runner.execute(),
+		marked: algorithm.marked
+	}));
+}
+
+/**
+ * Runs the phases of an algorithm on a world, calling onMove for every move
+ * (before it is executed) and onPhaseEnd after every phase. Returns the number
+ * of moves made in each phase. The start and end of every phase are reported
+ * to the tracer of the world.
+ */
+function runPhases(world: World, phases: Phase[],
+		onMove: (step: number) => void = () => {},
+		onPhaseEnd: (phase: Phase, step: number) => void = () => {}): number[] {
+	let step = 0;
+	let counts: number[] = [];
+	for (const phase of phases) {
+		const start = step;
+		world.tracer.startPhase(phase.name);
+		while (true) {
+			step++;
+			if (phase.marked) {
+				world.nextStep(phase.algorithm, step);
+			} else {
+				world.nextStepUnmarked(phase.algorithm, step);
+			}
+			if (!world.currentMove) {
+				break;
+			}
+			onMove(step);
+		}
+		step--;
+		counts.push(step - start);
+		world.tracer.endPhase();
+		onPhaseEnd(phase, step);
+	}
+	return counts;
+}
+
+function printWorld(world: World, bounds: [number, number, number, number]) {
+	const [minX, minY, maxX, maxY] = bounds;
+
+	console.log('┌' + '─'.repeat(2 * (maxX - minX) + 3) + '┐');
+	for (let y = maxY; y >= minY; y--) {
+		let line = "│ ";
+		for (let x = minX; x <= maxX; x++) {
+			if (world.hasCube([x, y])) {
+				const cube = world.getCube([x, y])!;
+				switch (cube.componentStatus) {
+					case ComponentStatus.CHUNK_CUT:
+						line += '\x1b[34m□\x1b[0m ';
+						break;
+					case ComponentStatus.CHUNK_STABLE:
+						line += '\x1b[34m■\x1b[0m ';
+						break;
+					case ComponentStatus.CONNECTOR:
+						line += '\x1b[34m×\x1b[0m ';
+						break;
+					case ComponentStatus.LINK_CUT:
+						line += '\x1b[31m□\x1b[0m ';
+						break;
+					case ComponentStatus.LINK_STABLE:
+						line += '\x1b[31m■\x1b[0m ';
+						break;
+				}
+			} else if (world.hasObstacle([x, y])) {
+				line += '\x1b[90m█\x1b[0m ';
+			} else {
+				line += '  ';
+			}
+		}
+		line += "│";
+		console.log(line);
+	}
+	console.log('└' + '─'.repeat(2 * (maxX - minX) + 3) + '┘');
+	//console.log(`(${world.cubes.length} cubes)`);
+}
+
+function writeIpeFile(world: World, fileName: string): void {
+	const ipe = world.toIpe();
+	const header = fs.readFileSync('ipe/header.ipe', 'utf-8');
+	const footer = fs.readFileSync('ipe/footer.ipe', 'utf-8');
+	const ipeFile = header + ipe + footer;
+	fs.writeFileSync(fileName, ipeFile);
+}
+
+function printError(text: string): void {
+	console.error(`\x1b[31m\x1b[1m${text}\x1b[0m`);
+}
+
+/**
+ * Prints a summary line per instance, in the format selected with
+ * --output-format: `text` (free-form text given by the caller), `json` (JSON
+ * Lines) or `csv` (comma-separated values, with a header line). If an output
+ * file is given, the lines are written to it as well (replacing its contents);
+ * if `quiet` is set, they are not printed to the console.
+ */
+class SummaryPrinter {
+
+	private headerPrinted = false;
+
+	constructor(public format: string, private outputFile: string | null = null,
+			private quiet = false) {
+		if (['text', 'json', 'csv'].indexOf(format) === -1) {
+			throw new Error(`Unknown output format ${format} ` +
+					`(choose from text, json, csv)`);
+		}
+		if (outputFile !== null) {
+			fs.writeFileSync(outputFile, '');
+		}
+	}
+
+	print(summary: {[key: string]: string | number | null}, text: string): void {
+		switch (this.format) {
+			case 'text':
+				this.output(text);
+				break;
+			case 'json':
+				this.output(JSON.stringify(summary));
+				break;
+			case 'csv':
+				if (!this.headerPrinted) {
+					this.output(Object.keys(summary).join(','));
+					this.headerPrinted = true;
+				}
+				this.output(Object.keys(summary)
+					.map((key) => this.csvValue(summary[key]))
+					.join(','));
+				break;
+		}
+	}
+
+	private output(line: string): void {
+		if (!this.quiet) {
+			console.log(line);
+		}
+		if (this.outputFile !== null) {
+			// escape sequences (used for coloring) do not belong in a file
+			fs.appendFileSync(this.outputFile,
+					line.replace(/\x1b\[[0-9;]*m/g, '') + '\n');
+		}
+	}
+
+	private csvValue(value: string | number | null): string {
+		if (value === null) {
+			return '';
+		}
+		const text = '' + value;
+		if (/[",\n]/.test(text)) {
+			return '"' + text.replace(/"/g, '""') + '"';
+		}
+		return text;
+	}
+}
+
+export {createTracer, createWatchdog, optimizeRun, scheduleRun, Phase, readAlgorithmOptions, createPhases, runPhases,
+	printWorld, writeIpeFile, printError, SummaryPrinter};
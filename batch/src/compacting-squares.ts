@@ -0,0 +1,226 @@
+#!/usr/bin/env node
+
+import {Options} from './options';
+import {printError} from './common';
+import {runCommand} from './commands/run';
+import {batchCommand} from './commands/batch';
+import {parallelCommand} from './commands/parallel';
+import {reconfigureCommand} from './commands/reconfigure';
+import {verifyCommand} from './commands/verify';
+import {scheduleCommand} from './commands/schedule';
+import {solveCommand} from './commands/solve';
+import {shrinkCommand} from './commands/shrink';
+import {generateCommand} from './commands/generate';
+import {algorithmsCommand} from './commands/algorithms';
+import {stressCommand} from './commands/stress';
+import {registeredAlgorithms} from './algorithms/registry';
+
+// entry point of the command-line interface: compacting-squares <command> ...
+
+type Command = {
+	usage: string;
+	flags: string[];
+
+	/**
+	 * The options that take a value, as `name <value>`.
+	 */
+	options: string[];
+
+	/**
+	 * Whether the command runs an algorithm, and hence accepts --algorithm
+	 * and the options of the algorithms (see readAlgorithmOptions()).
+	 */
+	algorithm: boolean;
+
+	run: (options: Options) => void;
+};
+
+const runFlags = ['quiet', 'breakdown', 'check', 'symmetries', 'optimize',
+	'schedule'];
+const runOptions = ['output-format <format>', 'ipe-every <n>', 'out <path>',
+	'max-moves <n>', 'max-visits <n>', 'trace <file>'];
+
+const commands: {[name: string]: Command} = {
+	'run': {
+		usage: '<instance>',
+		flags: runFlags,
+		options: runOptions,
+		algorithm: true,
+		run: (o) => runCommand(o, 'gc', {ipe: false, moves: false})
+	},
+	'dp': {
+		usage: '<instance>',
+		flags: runFlags,
+		options: runOptions,
+		algorithm: true,
+		run: (o) => runCommand(o, 'msdp', {ipe: false, moves: false})
+	},
+	'ipe': {
+		usage: '<instance>',
+		flags: runFlags,
+		options: runOptions,
+		algorithm: true,
+		run: (o) => runCommand(o, 'gc', {ipe: true, moves: false})
+	},
+	'moves': {
+		usage: '<instance>',
+		flags: runFlags,
+		options: runOptions,
+		algorithm: true,
+		run: (o) => runCommand(o, 'gc', {ipe: false, moves: true})
+	},
+	'batch': {
+		usage: '<instance_1> <instance_2> ...',
+		flags: ['quiet', 'breakdown', 'check', 'symmetries', 'optimize',
+			'schedule'],
+		options: ['output-format <format>', 'out <file>', 'max-moves <n>',
+			'max-visits <n>'],
+		algorithm: true,
+		run: batchCommand
+	},
+	'parallel': {
+		usage: '<instance_1> <instance_2> ...',
+		flags: ['retry-failed'],
+		options: ['jobs <n>', 'timeout <seconds>', 'out <file>',
+			'max-moves <n>', 'max-visits <n>'],
+		algorithm: true,
+		run: parallelCommand
+	},
+	'reconfigure': {
+		usage: '<start_instance> <target_instance>',
+		flags: ['quiet'],
+		options: ['max-moves <n>', 'max-visits <n>', 'trace <file>'],
+		algorithm: false,
+		run: reconfigureCommand
+	},
+	'verify': {
+		usage: '<instance> <moves>',
+		flags: ['quiet', 'monotone', 'msdp'],
+		options: ['target <target_instance>', 'move-model <name>'],
+		algorithm: false,
+		run: verifyCommand
+	},
+	'schedule': {
+		usage: '<instance> <moves>',
+		flags: ['quiet', 'msdp'],
+		options: ['out <file>'],
+		algorithm: false,
+		run: scheduleCommand
+	},
+	'solve': {
+		usage: '<instance>',
+		flags: [],
+		options: ['target <target_instance>', 'max-states <n>',
+			'move-model <name>', 'out <file>'],
+		algorithm: false,
+		run: solveCommand
+	},
+	'shrink': {
+		usage: '<instance>',
+		flags: ['quiet', 'check'],
+		options: ['max-moves <n>', 'out <file>'],
+		algorithm: true,
+		run: shrinkCommand
+	},
+	'generate': {
+		usage: '<width> <height> <percentage>',
+		flags: [],
+		options: ['model <model>', 'seed <n>', 'count <n>', 'out <directory>'],
+		algorithm: false,
+		run: generateCommand
+	},
+	'algorithms': {
+		usage: '',
+		flags: [],
+		options: [],
+		algorithm: false,
+		run: algorithmsCommand
+	},
+	'stress': {
+		usage: '[<size>]',
+		flags: [],
+		options: ['model <model>', 'percentage <p>', 'seed <n>', 'moves <n>'],
+		algorithm: true,
+		run: stressCommand
+	}
+};
+
+/**
+ * Returns the options that take a value of the given command, as
+ * `name <value>`.
+ */
+function commandOptions(command: Command): string[] {
+	if (!command.algorithm) {
+		return command.options;
+	}
+	let options = command.options.concat(['algorithm <name>']);
+	for (const algorithm of registeredAlgorithms()) {
+		for (const option of algorithm.options) {
+			const usage = `${option.name} <${option.type}_file>`;
+			if (!options.some((o) => o.split(' ')[0] === option.name)) {
+				options.push(usage);
+			}
+		}
+	}
+	return options;
+}
+
+function printUsage(): void {
+	console.log('Usage: compacting-squares <command> [options] <arguments>');
+	console.log('Commands:');
+	for (const name of Object.keys(commands)) {
+		console.log(`  ${name} ${commands[name].usage}`.replace(/ $/, ''));
+	}
+	console.log('Run compacting-squares <command> --help for the options of ' +
+			'a command.');
+}
+
+function printCommandUsage(name: string): void {
+	const command = commands[name];
+	console.log(`Usage: compacting-squares ${name} [options] ${command.usage}`
+		.replace(/ $/, ''));
+	const options = command.flags.concat(commandOptions(command));
+	if (options.length) {
+		console.log('Options:');
+		for (const option of options) {
+			console.log(`  --${option}`);
+		}
+	}
+	if (command.algorithm) {
+		console.log('Run compacting-squares algorithms for the algorithms ' +
+				'and the options they need.');
+	}
+}
+
+const [commandName, ...args] = process.argv.slice(2);
+if (commandName === '--help') {
+	printUsage();
+} else if (commandName === undefined ||
+		!commands.hasOwnProperty(commandName)) {
+	if (commandName !== undefined) {
+		printError(`Unknown command ${commandName}`);
+	}
+	printUsage();
+	process.exit(1);
+} else {
+	const command = commands[commandName];
+	let options: Options;
+	try {
+		options = new Options(args, command.flags,
+				commandOptions(command).map((o) => o.split(' ')[0]));
+	} catch (e) {
+		printError(e.message);
+		printCommandUsage(commandName);
+		process.exit(1);
+	}
+	if (options.flag('help')) {
+		printCommandUsage(commandName);
+		process.exit(0);
+	}
+	try {
+		command.run(options);
+	} catch (e) {
+		printError(e instanceof Error ? e.message : '' + e);
+		process.exit(1);
+	}
+}
@@ -0,0 +1,279 @@
+import {World} from './world';
+import {Color} from './cube';
+
+/**
+ * Seeded pseudo-random number generator (mulberry32), so that generated
+ * instances can be reproduced from their seed.
+ */
+class Random {
+
+	private state: number;
+
+	constructor(seed: number) {
+		this.state = seed >>> 0;
+	}
+
+	/**
+	 * Returns a random number in [0, 1).
+	 */
+	next(): number {
+		this.state = (this.state + 0x6d2b79f5) >>> 0;
+		let t = this.state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	}
+
+	/**
+	 * Returns a random integer in [0, n).
+	 */
+	nextInt(n: number): number {
+		return Math.floor(this.next() * n);
+	}
+}
+
+/**
+ * The ways in which a configuration can be generated.
+ *
+ *  * `shrink`: start with the full grid and repeatedly remove a random square
+ *    that does not disconnect the configuration (this is how the instances
+ *    in `/test-instances` were made);
+ *
+ *  * `eden`: start with the center cell and repeatedly add a random empty
+ *    cell adjacent to the configuration;
+ *
+ *  * `walk`: add all cells visited by a random walk starting in the center;
+ *
+ *  * `percolation`: fill every cell independently with the given
+ *    probability, and keep the largest connected component;
+ *
+ *  * `tree`: like `eden`, but only add cells adjacent to a single square, so
+ *    that the configuration does not contain any cycles.
+ */
+type GrowthModel = 'shrink' | 'eden' | 'walk' | 'percolation' | 'tree';
+
+const growthModels: GrowthModel[] =
+		['shrink', 'eden', 'walk', 'percolation', 'tree'];
+
+/**
+ * Generator for random connected configurations within a width × height
+ * grid.
+ */
+class InstanceGenerator {
+
+	private filled: boolean[][] = [];
+
+	constructor(public width: number, public height: number,
+			public random: Random) {
+		if (!Number.isInteger(width) || !Number.isInteger(height) ||
+				width < 1 || height < 1) {
+			throw new Error(`Invalid grid size ${width}x${height} ` +
+					`(the width and height must be positive integers)`);
+		}
+	}
+
+	/**
+	 * Generates a configuration using the given growth model, filling
+	 * (approximately, for `percolation` and `tree`) the given percentage of
+	 * the grid.
+	 *
+	 * The `tree` model stops early if no more cells can be added without
+	 * creating a cycle.
+	 *
+	 * Throws if the percentage is not more than 0 and at most 100.
+	 */
+	generate(model: GrowthModel, percentage: number): World {
+		if (!(percentage > 0 && percentage <= 100)) {
+			throw new Error(`Invalid fill percentage ${percentage} ` +
+					`(must be more than 0 and at most 100)`);
+		}
+		const count = Math.max(1,
+				Math.floor(this.width * this.height * percentage / 100));
+		this.fill(false);
+
+		switch (model) {
+			case 'shrink':
+				this.shrink(count);
+				break;
+			case 'eden':
+				this.grow(count, false);
+				break;
+			case 'walk':
+				this.walk(count);
+				break;
+			case 'percolation':
+				this.percolate(percentage / 100);
+				break;
+			case 'tree':
+				this.grow(count, true);
+				break;
+			default:
+				throw new Error(`Unknown growth model ${model}`);
+		}
+
+		let world = new World();
+		for (let x = 0; x < this.width; x++) {
+			for (let y = 0; y < this.height; y++) {
+				if (this.filled[x][y]) {
+					world.addCubeUnmarked([x, y], Color.GRAY);
+				}
+			}
+		}
+		return world;
+	}
+
+	private emptyMarks(): boolean[][] {
+		let marks: boolean[][] = [];
+		for (let x = 0; x < this.width; x++) {
+			marks.push(Array(this.height).fill(false));
+		}
+		return marks;
+	}
+
+	private fill(value: boolean): void {
+		this.filled = this.emptyMarks();
+		if (value) {
+			this.filled.forEach((column) => column.fill(true));
+		}
+	}
+
+	private inGrid([x, y]: [number, number]): boolean {
+		return x >= 0 && y >= 0 && x < this.width && y < this.height;
+	}
+
+	private neighbors([x, y]: [number, number]): [number, number][] {
+		const neighbors: [number, number][] =
+				[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+		return neighbors.filter((p) => this.inGrid(p));
+	}
+
+	private filledNeighbors(p: [number, number]): number {
+		return this.neighbors(p)
+			.filter(([x, y]) => this.filled[x][y])
+			.length;
+	}
+
+	private shrink(count: number): void {
+		this.fill(true);
+		let cells: [number, number][] = [];
+		for (let x = 0; x < this.width; x++) {
+			for (let y = 0; y < this.height; y++) {
+				cells.push([x, y]);
+			}
+		}
+
+		while (cells.length > count) {
+			const i = this.random.nextInt(cells.length);
+			const cell = cells[i];
+
+			// the cell is not a cut vertex if all of its neighbors are still
+			// in the same component after removing it
+			const neighbors = this.neighbors(cell)
+				.filter(([x, y]) => this.filled[x][y]);
+			let seen = this.emptyMarks();
+			seen[cell[0]][cell[1]] = true;
+			if (neighbors.length === 0 ||
+					this.mark(neighbors[0], seen) === cells.length - 1) {
+				this.filled[cell[0]][cell[1]] = false;
+				cells[i] = cells[cells.length - 1];
+				cells.pop();
+			}
+		}
+	}
+
+	private grow(count: number, tree: boolean): void {
+		const center: [number, number] =
+				[Math.floor(this.width / 2), Math.floor(this.height / 2)];
+		this.filled[center[0]][center[1]] = true;
+		let size = 1;
+
+		// cells adjacent to the configuration (may contain duplicates and
+		// cells that got filled in the meantime)
+		let perimeter = this.neighbors(center);
+
+		while (size < count) {
+			perimeter = perimeter.filter(([x, y]) => !this.filled[x][y] &&
+					(!tree || this.filledNeighbors([x, y]) === 1));
+			if (perimeter.length === 0) {
+				break;
+			}
+			const cell = perimeter[this.random.nextInt(perimeter.length)];
+			this.filled[cell[0]][cell[1]] = true;
+			size++;
+			perimeter.push(...this.neighbors(cell));
+		}
+	}
+
+	private walk(count: number): void {
+		let cell: [number, number] =
+				[Math.floor(this.width / 2), Math.floor(this.height / 2)];
+		this.filled[cell[0]][cell[1]] = true;
+		let size = 1;
+
+		while (size < count) {
+			const neighbors = this.neighbors(cell);
+			cell = neighbors[this.random.nextInt(neighbors.length)];
+			if (!this.filled[cell[0]][cell[1]]) {
+				this.filled[cell[0]][cell[1]] = true;
+				size++;
+			}
+		}
+	}
+
+	private percolate(probability: number): void {
+		for (let x = 0; x < this.width; x++) {
+			for (let y = 0; y < this.height; y++) {
+				this.filled[x][y] = this.random.next() < probability;
+			}
+		}
+
+		// find the largest component
+		let largest: [number, number] | null = null;
+		let largestSize = 0;
+		let seen = this.emptyMarks();
+		for (let x = 0; x < this.width; x++) {
+			for (let y = 0; y < this.height; y++) {
+				if (this.filled[x][y] && !seen[x][y]) {
+					const size = this.mark([x, y], seen);
+					if (size > largestSize) {
+						largest = [x, y];
+						largestSize = size;
+					}
+				}
+			}
+		}
+
+		if (largest === null) {
+			// nothing got filled; use a single square
+			this.filled[Math.floor(this.width / 2)][Math.floor(this.height / 2)] = true;
+			return;
+		}
+
+		// remove everything outside of the largest component
+		let keep = this.emptyMarks();
+		this.mark(largest, keep);
+		this.filled = keep;
+	}
+
+	/**
+	 * Marks the component of p in the given array, and returns its size.
+	 */
+	private mark(p: [number, number], seen: boolean[][]): number {
+		seen[p[0]][p[1]] = true;
+		let queue = [p];
+		let size = 0;
+		while (queue.length) {
+			const cell = queue.pop()!;
+			size++;
+			for (const [x, y] of this.neighbors(cell)) {
+				if (this.filled[x][y] && !seen[x][y]) {
+					seen[x][y] = true;
+					queue.push([x, y]);
+				}
+			}
+		}
+		return size;
+	}
+}
+
+export {Random, GrowthModel, growthModels, InstanceGenerator};
@@ -0,0 +1,118 @@
+/**
+ * A transformation of the grid that maps cells to cells: a symmetry of the
+ * grid (a rotation by a multiple of 90°, possibly combined with mirroring)
+ * followed by a translation. It maps (x, y) to
+ * (a x + b y + dx, c x + d y + dy).
+ */
+class Transform {
+
+	static readonly IDENTITY = new Transform(1, 0, 0, 1, 0, 0);
+
+	constructor(readonly a: number, readonly b: number,
+			readonly c: number, readonly d: number,
+			readonly dx: number, readonly dy: number) {}
+
+	/**
+	 * Returns the translation by (dx, dy).
+	 */
+	static translation(dx: number, dy: number): Transform {
+		return new Transform(1, 0, 0, 1, dx, dy);
+	}
+
+	/**
+	 * Returns the rotation around the origin by the given number of quarter
+	 * turns counter-clockwise.
+	 */
+	static rotation(quarterTurns: number): Transform {
+		switch (((quarterTurns % 4) + 4) % 4) {
+			case 1:
+				return new Transform(0, -1, 1, 0, 0, 0);
+			case 2:
+				return new Transform(-1, 0, 0, -1, 0, 0);
+			case 3:
+				return new Transform(0, 1, -1, 0, 0, 0);
+			default:
+				return Transform.IDENTITY;
+		}
+	}
+
+	/**
+	 * Returns the mirroring in the y-axis, that is, (x, y) ↦ (-x, y).
+	 */
+	static mirror(): Transform {
+		return new Transform(-1, 0, 0, 1, 0, 0);
+	}
+
+	/**
+	 * Returns the transformation from MSDP's (row, column) coordinates to
+	 * ours, for a configuration with the given bounds (in our coordinates).
+	 */
+	static fromMsdp(bounds: [number, number, number, number]): Transform {
+		const [minX, minY, maxX, ] = bounds;
+		return Transform.rotation(3)
+			.then(Transform.translation(-minX - 1, maxX - minY + 1));
+	}
+
+	/**
+	 * Returns the image of the given cell.
+	 */
+	apply(p: [number, number]): [number, number] {
+		return [
+			this.a * p[0] + this.b * p[1] + this.dx,
+			this.c * p[0] + this.d * p[1] + this.dy
+		];
+	}
+
+	/**
+	 * Returns the transformation that first applies this one and then the
+	 * given one.
+	 */
+	then(t: Transform): Transform {
+		return new Transform(
+			t.a * this.a + t.b * this.c, t.a * this.b + t.b * this.d,
+			t.c * this.a + t.d * this.c, t.c * this.b + t.d * this.d,
+			t.a * this.dx + t.b * this.dy + t.dx,
+			t.c * this.dx + t.d * this.dy + t.dy
+		);
+	}
+
+	/**
+	 * Returns the transformation that undoes this one.
+	 */
+	inverse(): Transform {
+		// the matrix is orthogonal, so its inverse is its transpose
+		return new Transform(this.a, this.c, this.b, this.d,
+			-(this.a * this.dx + this.c * this.dy),
+			-(this.b * this.dx + this.d * this.dy));
+	}
+}
+
+/**
+ * One of the symmetries of the grid, with a name to report it by.
+ */
+type Symmetry = {
+	name: string;
+	transform: Transform;
+};
+
+/**
+ * Returns the 8 symmetries of the grid (fixing the origin): the 4 rotations,
+ * and the 4 rotations after mirroring. The identity comes first.
+ */
+function symmetries(): Symmetry[] {
+	let result: Symmetry[] = [];
+	for (const mirrored of [false, true]) {
+		for (let k = 0; k < 4; k++) {
+			const rotation = k === 0 ? [] : [`rotate ${90 * k}`];
+			const name = (mirrored ? ['mirror'] : []).concat(rotation).join(', ');
+			result.push({
+				name: name || 'identity',
+				transform: (mirrored ? Transform.mirror() : Transform.IDENTITY)
+					.then(Transform.rotation(k))
+			});
+		}
+	}
+	return result;
+}
+
+export {Transform, Symmetry, symmetries};
@@ -0,0 +1,188 @@
+import {World} from './world';
+import {TraceEvent, TraceSink} from './tracer';
+
+/**
+ * The compaction moves for which the paper claims that the moved square ends
+ * up in the bounding box of the configuration.
+ */
+const boundedMoves = ['Free move', 'Semi-free move', 'Top corner move',
+	'Bottom corner move'];
+
+/**
+ * Thrown by InvariantChecker when an invariant is violated. The message
+ * contains the step number and the snapshot, so that printing it suffices as
+ * a report.
+ */
+class InvariantViolation extends Error {
+
+	/**
+	 * @param step The number of moves made when the violation was found.
+	 * @param phase The phase the violation was found in, if any.
+	 * @param invariant The name of the violated invariant.
+	 * @param snapshot The configuration at the time of the violation, in the
+	 * instance format (so that it can be run again).
+	 */
+	constructor(readonly step: number, readonly phase: string | null,
+			readonly invariant: string, detail: string,
+			readonly snapshot: string) {
+		super(`Invariant '${invariant}' violated after step ${step}` +
+				(phase === null ? '' : ` (in phase ${phase})`) +
+				`: ${detail}\nSnapshot: ${snapshot}`);
+		this.name = 'InvariantViolation';
+	}
+}
+
+/**
+ * Checks the invariants from the paper while an algorithm runs, and throws an
+ * InvariantViolation as soon as one does not hold. It gets the events of the
+ * world's tracer, so it has to be installed as (one of the) sinks of
+ * world.tracer. Checked are:
+ *
+ *  * connected: after every move, the configuration is connected;
+ *
+ *  * chunks (gather and compact): every square that is in a chunk stays in a
+ *    chunk; a square is in a chunk if it is not a link square (like in
+ *    preservesChunkiness()). In gather this is checked between iterations
+ *    (that is, when the next light square is gathered, and at the end of the
+ *    phase), and in compact after every compaction move, as the individual
+ *    moves of a chain move do not keep the chunks intact;
+ *
+ *  * light squares (gather): the number of light squares does not increase
+ *    between iterations;
+ *
+ *  * bounding box (compact): free, semi-free and corner moves end inside the
+ *    bounding box of the configuration at the start of the phase, and the
+ *    configuration stays inside it after every compaction move.
+ *
+ * As light configurations are handled without the chunk and light square
+ * invariants, those are checked only if the configuration is not light at the
+ * start of the gather phase.
+ */
+class InvariantChecker implements TraceSink {
+
+	private phase: string | null = null;
+	private step = 0;
+	private heavy = false;
+	private limit = 0;
+
+	// for each cube, whether it was in a chunk at the previous check
+	private inChunk: boolean[] = [];
+	private lightSquares = 0;
+	private bounds: [number, number, number, number] = [0, 0, 0, 0];
+
+	constructor(private world: World) {}
+
+	write(event: TraceEvent): void {
+		switch (event.type) {
+			case 'phase-start':
+				this.phase = event.phase;
+				if (this.phase === 'gather') {
+					this.limit = this.world.bridgeLimit();
+					this.heavy = this.world.cubes.length >= this.limit;
+					this.lightSquares = this.countLightSquares();
+				}
+				this.inChunk = this.findChunkSquares();
+				this.bounds = this.world.bounds();
+				break;
+			case 'move':
+				this.step = event.step;
+				this.checkMove(event.label, event.to);
+				break;
+			case 'sub-step':
+				this.checkIteration();
+				break;
+			case 'phase-end':
+				this.checkIteration();
+				this.phase = null;
+				break;
+		}
+	}
+
+	close(): void {}
+
+	private checkMove(label: string | null, to: [number, number]): void {
+		if (!this.world.isConnected()) {
+			this.fail('connected', 'the configuration is disconnected');
+		}
+		if (this.phase === 'compact' && label !== null &&
+				boundedMoves.indexOf(label) !== -1 &&
+				!this.inBounds(to[0], to[1])) {
+			this.fail('bounding box',
+					`${label} to (${to[0]}, ${to[1]}) leaves the bounding box`);
+		}
+	}
+
+	/**
+	 * Checks the invariants that hold between iterations (in gather) or
+	 * compaction moves (in compact).
+	 */
+	private checkIteration(): void {
+		if (this.phase === 'gather' && this.heavy) {
+			this.checkChunks();
+			const lightSquares = this.countLightSquares();
+			if (lightSquares > this.lightSquares) {
+				this.fail('light squares', 'the number of light squares ' +
+						`increased from ${this.lightSquares} to ${lightSquares}`);
+			}
+			this.lightSquares = lightSquares;
+		} else if (this.phase === 'compact') {
+			this.checkChunks();
+			const [minX, minY, maxX, maxY] = this.world.bounds();
+			if (!this.inBounds(minX, minY) || !this.inBounds(maxX, maxY)) {
+				this.fail('bounding box', 'the configuration does not fit in ' +
+						'its bounding box from the start of the phase anymore');
+			}
+		}
+	}
+
+	private checkChunks(): void {
+		const inChunk = this.findChunkSquares();
+		for (let i = 0; i < inChunk.length; i++) {
+			if (this.inChunk[i] && !inChunk[i]) {
+				const [x, y] = this.world.cubes[i].p;
+				this.fail('chunks', `square ${i} at (${x}, ${y}) is ` +
+						'not in a chunk anymore');
+			}
+		}
+		this.inChunk = inChunk;
+	}
+
+	/**
+	 * Returns for each cube whether it is in a chunk.
+	 */
+	private findChunkSquares(): boolean[] {
+		const [components] = this.world.findComponents();
+		return components.map((c) => c === 2 || c === 3);
+	}
+
+	/**
+	 * Returns the number of light squares, as defined in Gather: connectors
+	 * and link cut squares on the outside with a bridge capacity smaller than
+	 * the bridge limit (from the start of the phase).
+	 */
+	private countLightSquares(): number {
+		const [components] = this.world.findComponents();
+		const cut = this.world.blockCutTree().cut;
+		let light = new Set<number>();
+		for (const cube of this.world.outsideCubes()) {
+			const id = this.world.getCubeIndex(cube.p)!;
+			if ((components[id] === 3 || (components[id] === 1 && cut[id])) &&
+					this.world.bridgeCapacity(cube) < this.limit) {
+				light.add(id);
+			}
+		}
+		return light.size;
+	}
+
+	private inBounds(x: number, y: number): boolean {
+		const [minX, minY, maxX, maxY] = this.bounds;
+		return x >= minX && y >= minY && x <= maxX && y <= maxY;
+	}
+
+	private fail(invariant: string, detail: string): never {
+		throw new InvariantViolation(this.step, this.phase, invariant, detail,
+				this.world.serialize(true));
+	}
+}
+
+export {InvariantViolation, InvariantChecker};
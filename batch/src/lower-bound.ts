@@ -0,0 +1,122 @@
+import {World} from './world';
+
+/**
+ * Lower bounds on the number of moves needed to reconfigure a world.
+ *
+ * All bounds are based on the fact that a single move changes the position
+ * of a single square, by at most one step in x- and y-direction each (a
+ * corner move changes both). In move models with longer moves (see
+ * MoveModel.maxStep), such as the teleport model, this does not hold:
+ * monotone() then gives no bound, and target() only counts the squares that
+ * are not on a target cell.
+ */
+class LowerBound {
+
+	constructor(public world: World) {}
+
+	/**
+	 * Returns a lower bound on the number of moves needed to make the world
+	 * xy-monotone.
+	 *
+	 * An xy-monotone configuration of n squares with its bottom-left corner at
+	 * (a, b) is contained in the region of cells (a + i, b + j) with
+	 * (i + 1)(j + 1) ≤ n. Hence every square needs at least as many moves as
+	 * its Chebyshev distance to that region. We take the minimum of the sum of
+	 * these distances over all possible corners; it suffices to consider the
+	 * corners within the bounding box of the world, as moving the corner
+	 * towards the bounding box never increases any of the distances.
+	 *
+	 * Returns null if the move model has moves of more than one step.
+	 */
+	monotone(): number | null {
+		if (this.world.model.maxStep > 1) {
+			return null;
+		}
+		const n = this.world.cubes.length;
+		if (n === 0) {
+			return 0;
+		}
+		const [minX, minY, maxX, maxY] = this.world.bounds();
+		const [w, h] = [maxX - minX + 1, maxY - minY + 1];
+
+		// distance[u + w - 1][v + h - 1] is the distance of a square at
+		// (a + u, b + v) to the region with corner (a, b)
+		let distance: number[][] = [];
+		for (let u = -(w - 1); u <= w - 1; u++) {
+			let column: number[] = [];
+			for (let v = -(h - 1); v <= h - 1; v++) {
+				let d = Math.max(0, -u, -v);
+				while ((Math.max(u - d, 0) + 1) * (Math.max(v - d, 0) + 1) > n) {
+					d++;
+				}
+				column.push(d);
+			}
+			distance.push(column);
+		}
+
+		let best = Infinity;
+		for (let a = minX; a <= maxX; a++) {
+			for (let b = minY; b <= maxY; b++) {
+				let sum = 0;
+				for (const cube of this.world.cubes) {
+					sum += distance[cube.p[0] - a + w - 1][cube.p[1] - b + h - 1];
+					if (sum >= best) {
+						break;
+					}
+				}
+				best = Math.min(best, sum);
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Returns a lower bound on the number of moves needed to transform the
+	 * world into the given target configuration.
+	 *
+	 * This is the maximum of:
+	 *
+	 *  * the number of squares that are not on a target cell (every move puts
+	 *    at most one square on a target cell);
+	 *
+	 *  * the minimum total distance in x-direction between the squares and
+	 *    the target cells (every move decreases this by at most 1), and
+	 *    similarly for the y-direction; only if the move model has no moves
+	 *    of more than one step.
+	 */
+	target(target: [number, number][]): number {
+		if (target.length !== this.world.cubes.length) {
+			throw new Error(`Cannot reconfigure ${this.world.cubes.length} ` +
+					`squares into a target with ${target.length} squares`);
+		}
+		const targetKeys = new Set(target.map((p) => p[0] + ',' + p[1]));
+		const misplaced = this.world.cubes
+			.filter((cube) => !targetKeys.has(cube.p[0] + ',' + cube.p[1]))
+			.length;
+
+		if (this.world.model.maxStep > 1) {
+			return misplaced;
+		}
+		const cells = this.world.cubes.map((cube) => cube.p);
+		return Math.max(misplaced,
+				this.transportDistance(cells.map((p) => p[0]), target.map((p) => p[0])),
+				this.transportDistance(cells.map((p) => p[1]), target.map((p) => p[1])));
+	}
+
+	/**
+	 * Returns the minimum total distance between two equally-sized sets of
+	 * numbers, over all ways to pair them up. (In one dimension, pairing them
+	 * up in sorted order is optimal.)
+	 */
+	private transportDistance(a: number[], b: number[]): number {
+		a = [...a].sort((x, y) => x - y);
+		b = [...b].sort((x, y) => x - y);
+		let sum = 0;
+		for (let i = 0; i < a.length; i++) {
+			sum += Math.abs(a[i] - b[i]);
+		}
+		return sum;
+	}
+}
+
+export {LowerBound};
@@ -0,0 +1,408 @@
+import {World, Move, MoveDirection} from './world';
+
+/**
+ * The rules for which moves the squares can make, apart from keeping the
+ * configuration connected, which all models require (see Move.isValid()).
+ * The model of a world is used by Move.isValidIgnoreConnectivity(), and
+ * through it by World.validMovesFrom(), World.shortestMovePath() and the
+ * Verifier.
+ */
+interface MoveModel {
+
+	/**
+	 * Name by which the model is stored in instance files (see
+	 * World.serialize()).
+	 */
+	name: string;
+
+	description: string;
+
+	/**
+	 * Maximum Chebyshev distance between the source of a move and the cells
+	 * that determine whether the move is valid (including its target), or
+	 * Infinity if the moves are not local.
+	 */
+	range: number;
+
+	/**
+	 * Maximum Chebyshev distance between the source and the target of a
+	 * move, or Infinity if squares can move arbitrarily far.
+	 */
+	maxStep: number;
+
+	/**
+	 * Returns the moves to consider for a square at p (which do not need to
+	 * be valid). The square may have been taken out of the world, as in
+	 * World.shortestMovePath().
+	 */
+	candidateMoves(world: World, p: [number, number]): Move[];
+
+	/**
+	 * Returns the moves to consider for bringing the square at `from` to
+	 * `to`, or an empty array if that is not a single move in this model.
+	 */
+	movesBetween(world: World, from: [number, number],
+			to: [number, number]): Move[];
+
+	/**
+	 * Checks if the move is valid, ignoring connectivity.
+	 */
+	isValidIgnoreConnectivity(move: Move): boolean;
+
+	/**
+	 * Determines why the move is invalid when ignoring connectivity, assuming
+	 * that there is a square to move and that the target cell is empty.
+	 */
+	diagnose(move: Move): string;
+}
+
+// the unit vector for each direction letter
+const offsets: {[direction: string]: [number, number]} = {
+	'N': [0, 1], 'E': [1, 0], 'S': [0, -1], 'W': [-1, 0]
+};
+
+/**
+ * Returns the given cell moved by the given multiples of the given
+ * directions.
+ */
+function shift(p: [number, number],
+		...steps: [string, number][]): [number, number] {
+	let [x, y] = p;
+	for (const [direction, times] of steps) {
+		x += offsets[direction][0] * times;
+		y += offsets[direction][1] * times;
+	}
+	return [x, y];
+}
+
+/**
+ * Returns the moves in all 12 directions (slides and corner moves) of the
+ * square at p.
+ */
+function stepMoves(world: World, p: [number, number]): Move[] {
+	return Object.keys(MoveDirection)
+		.filter((direction) => direction !== 'T')
+		.map((direction) => new Move(world, p,
+				MoveDirection[<MoveDirection> direction]));
+}
+
+/**
+ * Returns the slide or the two corner moves between the given cells, or an
+ * empty array if they are not adjacent.
+ */
+function stepMovesBetween(world: World, from: [number, number],
+		to: [number, number]): Move[] {
+	const [dx, dy] = [to[0] - from[0], to[1] - from[1]];
+	if (Math.abs(dx) > 1 || Math.abs(dy) > 1 || (dx === 0 && dy === 0)) {
+		return [];
+	}
+	const horizontal = dx === 1 ? 'E' : 'W';
+	const vertical = dy === 1 ? 'N' : 'S';
+	let directions: string[];
+	if (dy === 0) {
+		directions = [horizontal];
+	} else if (dx === 0) {
+		directions = [vertical];
+	} else {
+		directions = [vertical + horizontal, horizontal + vertical];
+	}
+	return directions.map((direction) =>
+			new Move(world, from, <MoveDirection> direction));
+}
+
+/**
+ * Checks if the square at the target of the move would have a neighboring
+ * square or obstacle (other than the moving square itself).
+ */
+function isAttached(move: Move): boolean {
+	const [x, y] = move.targetPosition();
+	const source = move.sourcePosition();
+	const neighbors: [number, number][] =
+			[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+	return neighbors.some((n) => (n[0] !== source[0] || n[1] !== source[1]) &&
+			move.world.isBlocked(n));
+}
+
+/**
+ * The sliding-squares model of the paper: a square slides to a neighboring
+ * cell along two squares (or obstacles) that are next to each other, or moves
+ * around the corner of a square to a diagonal cell (a convex transition),
+ * provided that the cell it passes is empty.
+ */
+class SlidingModel implements MoveModel {
+
+	name = 'sliding';
+	description = 'sliding squares: squares slide along other squares, ' +
+			'and move around their corners';
+	range = 1;
+	maxStep = 1;
+
+	candidateMoves(world: World, p: [number, number]): Move[] {
+		return stepMoves(world, p);
+	}
+
+	movesBetween(world: World, from: [number, number],
+			to: [number, number]): Move[] {
+		return stepMovesBetween(world, from, to);
+	}
+
+	isValidIgnoreConnectivity(move: Move): boolean {
+		if (move.world.isBlocked(move.targetPosition())) {
+			return false;
+		}
+
+		// obstacles can be used for support just like cubes
+		let has = move.world.hasNeighbors(move.position, true);
+
+		switch (move.direction) {
+			case "N":
+				return (has['W'] && has['NW']) || (has['E'] && has['NE']);
+			case "E":
+				return (has['N'] && has['NE']) || (has['S'] && has['SE']);
+			case "S":
+				return (has['W'] && has['SW']) || (has['E'] && has['SE']);
+			case "W":
+				return (has['N'] && has['NW']) || (has['S'] && has['SW']);
+			case "NW": case "NE": case "EN": case "ES":
+			case "SE": case "SW": case "WS": case "WN":
+				// for corner moves, need to ensure that there is no cube in
+				// the first direction (which would be in our way) and there
+				// is a cube in the second direction (that we can pivot along)
+				return !has[move.direction[0]] && has[move.direction[1]];
+			default:
+				return false;
+		}
+	}
+
+	diagnose(move: Move): string {
+		if (move.direction.length === 1) {
+			return 'there are no squares or obstacles to slide along ' +
+					'(missing pivot)';
+		}
+		const has = move.world.hasNeighbors(move.position, true);
+		if (has[move.direction[0]]) {
+			return `corner move ${move.direction} is blocked by the ` +
+					`cell in direction ${move.direction[0]}`;
+		}
+		return `corner move ${move.direction} has no square or obstacle ` +
+				`to pivot around (missing pivot)`;
+	}
+}
+
+/**
+ * The rotating-squares (pivoting) model: a square rotates by 90° around a
+ * corner it shares with another square (or obstacle), into a neighboring
+ * cell. The cells it sweeps over have to be empty: besides the target, these
+ * are the two cells on the other side of the square and of the target. A
+ * corner move consists of two such rotations around the same corner, so it
+ * needs the cell it passes and the cells swept by both rotations to be empty,
+ * which may be two cells away. In both cases the square has to be next to
+ * another square or obstacle after the move.
+ */
+class PivotingModel implements MoveModel {
+
+	name = 'pivoting';
+	description = 'rotating squares: squares rotate around a corner they ' +
+			'share with another square, sweeping over empty cells';
+	range = 2;
+	maxStep = 1;
+
+	candidateMoves(world: World, p: [number, number]): Move[] {
+		return stepMoves(world, p);
+	}
+
+	movesBetween(world: World, from: [number, number],
+			to: [number, number]): Move[] {
+		return stepMovesBetween(world, from, to);
+	}
+
+	isValidIgnoreConnectivity(move: Move): boolean {
+		return this.findProblem(move) === null;
+	}
+
+	diagnose(move: Move): string {
+		return this.findProblem(move) || 'the move is valid';
+	}
+
+	/**
+	 * Returns why the move is invalid when ignoring connectivity, or null if
+	 * it is valid.
+	 */
+	private findProblem(move: Move): string | null {
+		const world = move.world;
+		const p = move.position;
+		const direction: string = move.direction;
+		if (world.isBlocked(move.targetPosition())) {
+			return 'the target cell is occupied';
+		}
+		const blocked = (cells: [number, number][]) =>
+				cells.find((c) => world.isBlocked(c));
+		const describe = (c: [number, number]) =>
+				`the rotation is blocked by the cell (${c[0]}, ${c[1]})`;
+
+		if (direction.length === 1) {
+			// rotate around a corner on either side (e) of the direction
+			// of movement (d)
+			const sides = direction === 'N' || direction === 'S' ?
+					['E', 'W'] : ['N', 'S'];
+			const opposite: {[direction: string]: string} =
+					{'N': 'S', 'E': 'W', 'S': 'N', 'W': 'E'};
+			let problem: string | null = null;
+			for (const side of sides) {
+				const other = opposite[side];
+				if (!world.isBlocked(shift(p, [side, 1])) &&
+						!world.isBlocked(shift(p, [side, 1], [direction, 1]))) {
+					problem = problem ||
+							'there is no square or obstacle to rotate around ' +
+							'(missing pivot)';
+					continue;
+				}
+				const cell = blocked([shift(p, [other, 1]),
+						shift(p, [other, 1], [direction, 1])]);
+				if (cell !== undefined) {
+					problem = describe(cell);
+					continue;
+				}
+				return isAttached(move) ? null : 'the square would not be ' +
+						'next to another square or obstacle after the move';
+			}
+			return problem;
+		}
+
+		// corner move: rotate first in direction X, then in direction Y,
+		// around the corner shared with the square in direction Y
+		const [first, second] = [direction[0], direction[1]];
+		if (world.isBlocked(shift(p, [first, 1]))) {
+			return `corner move ${direction} is blocked by the cell in ` +
+					`direction ${first}`;
+		}
+		if (!world.isBlocked(shift(p, [second, 1]))) {
+			return `corner move ${direction} has no square or obstacle to ` +
+					`rotate around (missing pivot)`;
+		}
+		const cell = blocked([
+			shift(p, [second, -1]),
+			shift(p, [first, 1], [second, -1]),
+			shift(p, [first, 2]),
+			shift(p, [first, 2], [second, 1])
+		]);
+		if (cell !== undefined) {
+			return describe(cell);
+		}
+		return isAttached(move) ? null : 'the square would not be next to ' +
+				'another square or obstacle after the move';
+	}
+}
+
+/**
+ * A model for theoretical comparisons, in which a square teleports along the
+ * boundary: it can move in one step to any empty cell next to another square
+ * (or obstacle) that it can reach through empty cells, ignoring how it would
+ * get there physically. Reachability is determined within the bounding box of
+ * the squares and obstacles, extended by one cell.
+ */
+class TeleportModel implements MoveModel {
+
+	name = 'teleport';
+	description = 'teleporting along the boundary: squares jump to any ' +
+			'empty cell next to another square that they can reach';
+	range = Infinity;
+	maxStep = Infinity;
+
+	candidateMoves(world: World, p: [number, number]): Move[] {
+		return this.reachableCells(world, p)
+			.map((cell) => new Move(world, p, MoveDirection.T, cell))
+			.filter(isAttached);
+	}
+
+	movesBetween(world: World, from: [number, number],
+			to: [number, number]): Move[] {
+		if (from[0] === to[0] && from[1] === to[1]) {
+			return [];
+		}
+		return [new Move(world, from, MoveDirection.T, to)];
+	}
+
+	isValidIgnoreConnectivity(move: Move): boolean {
+		return this.findProblem(move) === null;
+	}
+
+	diagnose(move: Move): string {
+		return this.findProblem(move) || 'the move is valid';
+	}
+
+	/**
+	 * Returns why the move is invalid when ignoring connectivity, or null if
+	 * it is valid.
+	 */
+	private findProblem(move: Move): string | null {
+		const target = move.targetPosition();
+		if (move.direction !== MoveDirection.T) {
+			return 'only teleports are moves in this model';
+		}
+		if (move.world.isBlocked(target)) {
+			return 'the target cell is occupied';
+		}
+		if (!isAttached(move)) {
+			return 'the target cell is not next to another square or obstacle';
+		}
+		if (!this.reachableCells(move.world, move.position)
+				.some((c) => c[0] === target[0] && c[1] === target[1])) {
+			return 'the target cell cannot be reached through empty cells';
+		}
+		return null;
+	}
+
+	/**
+	 * Returns the empty cells that can be reached from p through empty cells
+	 * (not including p itself), by a BFS within the extended bounding box.
+	 */
+	private reachableCells(world: World, p: [number, number]):
+			[number, number][] {
+		const cells = world.cubes.map((cube) => cube.p)
+			.concat(world.obstacles, [p]);
+		const minX = cells.map((c) => c[0]).min() - 1;
+		const minY = cells.map((c) => c[1]).min() - 1;
+		const maxX = cells.map((c) => c[0]).max() + 1;
+		const maxY = cells.map((c) => c[1]).max() + 1;
+
+		let seen = new Set<string>([p[0] + "," + p[1]]);
+		let result: [number, number][] = [];
+		let queue: [number, number][] = [p];
+		while (queue.length !== 0) {
+			const [x, y] = queue.shift()!;
+			const neighbors: [number, number][] =
+					[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+			for (const n of neighbors) {
+				if (n[0] < minX || n[0] > maxX || n[1] < minY || n[1] > maxY ||
+						seen.has(n[0] + "," + n[1]) || world.isBlocked(n)) {
+					continue;
+				}
+				seen.add(n[0] + "," + n[1]);
+				result.push(n);
+				queue.push(n);
+			}
+		}
+		return result;
+	}
+}
+
+const moveModels: MoveModel[] = [
+	new SlidingModel(),
+	new PivotingModel(),
+	new TeleportModel()
+];
+
+/**
+ * Returns the move model with the given name; throws if it does not exist.
+ */
+function findMoveModel(name: string): MoveModel {
+	const model = moveModels.find((m) => m.name === name);
+	if (model === undefined) {
+		throw new Error(`Unknown move model ${name} (choose from ` +
+				`${moveModels.map((m) => m.name).join(', ')})`);
+	}
+	return model;
+}
+
+export {MoveModel, findMoveModel};
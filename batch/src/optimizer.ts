@@ -0,0 +1,170 @@
+import {World, Move} from './world';
+import {MoveStep, Verifier} from './verify';
+
+/**
+ * Shortens move sequences by local rewrites (peephole optimization).
+ *
+ * The optimizer goes through the moves in order, and for every move looks at
+ * the following moves of the same square within a window. If the square
+ * travels from p to q over k of these moves, this part of its path is
+ * replaced by a shortest move path from p to q (computed with
+ * World.shortestMovePath()) if that takes less than k moves; the moves of the
+ * other squares in between are reordered to come after (or, if that is
+ * invalid, before) the new path. If the square returns to p, its moves are
+ * simply dropped: this cancels a square that is moved and then moved back.
+ *
+ * Every rewrite is validated by executing the rewritten moves (with
+ * Move.isValid()). As a rewrite does not change the configuration at the end
+ * of the rewritten moves, the later moves stay valid. Rewrites stay within a
+ * single phase, so that the number of moves saved can be reported per phase.
+ */
+class MoveOptimizer {
+
+	/**
+	 * Maximum number of moves a single rewrite spans.
+	 */
+	window = 100;
+
+	private verifier: Verifier;
+
+	/**
+	 * @param world The world to optimize moves for, in the starting
+	 * configuration. The optimized moves are executed on it, so afterwards it
+	 * is in the final configuration.
+	 */
+	constructor(public world: World) {
+		this.verifier = new Verifier(world);
+	}
+
+	/**
+	 * Optimizes a valid move sequence consisting of phases with the given
+	 * numbers of moves. Returns the optimized moves, and the number of moves
+	 * in each phase after optimization.
+	 */
+	optimize(moves: Move[], counts: number[]): [Move[], number[]] {
+		let result: Move[] = [];
+		let newCounts: number[] = [];
+		let start = 0;
+		for (const count of counts) {
+			const phase = this.optimizePhase(moves.slice(start, start + count)
+				.map((move): MoveStep => [move.sourcePosition(), move.targetPosition()]));
+			result.push(...phase);
+			newCounts.push(phase.length);
+			start += count;
+		}
+		return [result, newCounts];
+	}
+
+	private optimizePhase(moves: MoveStep[]): Move[] {
+		let result: Move[] = [];
+		let i = 0;
+		while (i < moves.length) {
+			const rewritten = this.rewrite(moves, i);
+			if (rewritten !== null) {
+				moves = rewritten;
+				continue;
+			}
+			const [from, to] = moves[i];
+			const [move, reason] = this.verifier.findMove(from, to);
+			if (move === null) {
+				throw new Error(`Move ${i} (${from[0]}, ${from[1]}) → ` +
+						`(${to[0]}, ${to[1]}) is invalid: ${reason}`);
+			}
+			this.world.executeMove(move, false);
+			result.push(move);
+			i++;
+		}
+		return result;
+	}
+
+	/**
+	 * Tries to shorten the path of the square moved by move i (see the class
+	 * comment), with the world in the configuration before move i. Returns
+	 * the rewritten moves, or null if no rewrite applies.
+	 */
+	private rewrite(moves: MoveStep[], i: number): MoveStep[] | null {
+		const start = moves[i][0];
+
+		// find the moves of the square, and its position after each of them
+		let own: number[] = [];
+		let positions: [number, number][] = [];
+		let position = start;
+		const end = Math.min(moves.length, i + this.window);
+		for (let k = i; k < end; k++) {
+			if (MoveOptimizer.equal(moves[k][0], position)) {
+				position = moves[k][1];
+				own.push(k);
+				positions.push(position);
+			}
+		}
+
+		// try the longest part of the path first
+		for (let m = own.length - 1; m >= 1; m--) {
+			const target = positions[m];
+			const distance = Math.max(Math.abs(target[0] - start[0]),
+					Math.abs(target[1] - start[1]));
+			if (distance >= m + 1) {
+				continue;
+			}
+			const path = this.findPath(start, target);
+			if (path === null || path.length >= m + 1) {
+				continue;
+			}
+			let others: MoveStep[] = [];
+			for (let k = i; k <= own[m]; k++) {
+				if (own.indexOf(k) === -1) {
+					others.push(moves[k]);
+				}
+			}
+			for (const window of [path.concat(others), others.concat(path)]) {
+				if (this.isValid(window)) {
+					return moves.slice(0, i).concat(window,
+							moves.slice(own[m] + 1));
+				}
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Returns a shortest move path from start to target in the current
+	 * configuration, or null if there is none.
+	 */
+	private findPath(start: [number, number], target: [number, number]):
+			MoveStep[] | null {
+		if (MoveOptimizer.equal(start, target)) {
+			return [];
+		}
+		const path = this.world.findMovePath(start, target);
+		if (path === null) {
+			return null;
+		}
+		return path.map((move): MoveStep =>
+				[move.sourcePosition(), move.targetPosition()]);
+	}
+
+	/**
+	 * Checks if the given moves are valid when executed in order from the
+	 * current configuration (which is restored afterwards).
+	 */
+	private isValid(moves: MoveStep[]): boolean {
+		const step = this.world.getHistoryStep();
+		let valid = true;
+		for (const [from, to] of moves) {
+			const [move, ] = this.verifier.findMove(from, to);
+			if (move === null) {
+				valid = false;
+				break;
+			}
+			this.world.executeMove(move, false);
+		}
+		this.world.seek(step);
+		return valid;
+	}
+
+	private static equal(p: [number, number], q: [number, number]): boolean {
+		return p[0] === q[0] && p[1] === q[1];
+	}
+}
+
+export {MoveOptimizer};
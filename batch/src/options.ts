@@ -0,0 +1,83 @@
+/**
+ * Command-line arguments, split into options (`--name value`), flags
+ * (`--name`) and positional arguments.
+ */
+class Options {
+
+	positional: string[] = [];
+
+	private values = new Map<string, string>();
+	private flags = new Set<string>();
+
+	/**
+	 * Parses the given arguments. Options whose names are in flagNames do not
+	 * take a value, and options whose names are in optionNames do; throws on
+	 * any other option. The flag --help is always accepted.
+	 */
+	constructor(args: string[], flagNames: string[], optionNames: string[]) {
+		for (let i = 0; i < args.length; i++) {
+			const arg = args[i];
+			if (!arg.startsWith('--')) {
+				this.positional.push(arg);
+				continue;
+			}
+			const name = arg.substring(2);
+			if (name === 'help' || flagNames.indexOf(name) !== -1) {
+				this.flags.add(name);
+				continue;
+			}
+			if (optionNames.indexOf(name) === -1) {
+				throw new Error(`Unknown option --${name}`);
+			}
+			if (i + 1 >= args.length || args[i + 1].startsWith('--')) {
+				throw new Error(`--${name} requires a value`);
+			}
+			this.values.set(name, args[i + 1]);
+			i++;
+		}
+	}
+
+	/**
+	 * Checks if the given flag was set.
+	 */
+	flag(name: string): boolean {
+		return this.flags.has(name);
+	}
+
+	/**
+	 * Checks if a value was given for the given option.
+	 */
+	has(name: string): boolean {
+		return this.values.has(name);
+	}
+
+	get(name: string, defaultValue: string): string {
+		const value = this.values.get(name);
+		return value === undefined ? defaultValue : value;
+	}
+
+	getNumber(name: string, defaultValue: number): number {
+		const value = this.values.get(name);
+		if (value === undefined) {
+			return defaultValue;
+		}
+		const number = Number(value);
+		if (isNaN(number)) {
+			throw new Error(`--${name} requires a number, but got ${value}`);
+		}
+		return number;
+	}
+
+	/**
+	 * Returns the positional arguments, and throws if there are not between
+	 * min and max of them.
+	 */
+	files(min: number, max: number, description: string): string[] {
+		if (this.positional.length < min || this.positional.length > max) {
+			throw new Error(`Expected ${description}`);
+		}
+		return this.positional;
+	}
+}
+
+export {Options};
@@ -0,0 +1,199 @@
+import {World} from './world';
+import {Color} from './cube';
+import {Tracer, TraceSink, MultiSink} from './tracer';
+import {InvariantChecker} from './invariants';
+import {Watchdog} from './watchdog';
+import {createPhases, runPhases} from './common';
+
+/**
+ * A square of the instance being shrunk.
+ */
+type Square = {
+	p: [number, number];
+	color: Color;
+};
+
+/**
+ * Returns the class of an error thrown by an algorithm: the first line of its
+ * message up to the first colon, with all numbers replaced by #. For example,
+ * all "Invalid move detected: ..." errors are of the same class, and so are
+ * all "cannot gather light square (x, y), the boundary path is blocked"
+ * errors.
+ */
+function errorClass(e: any): string {
+	const message = e instanceof Error ? e.message : '' + e;
+	return message.split('\n')[0].split(':')[0].replace(/-?\d+/g, '#');
+}
+
+/**
+ * Finds a small instance on which an algorithm fails in the same way as on a
+ * given instance, by delta debugging: it repeatedly tries to remove a set of
+ * squares (starting with large sets, and continuing with smaller and smaller
+ * ones), and keeps the removal if the instance stays connected and the
+ * algorithm still throws an error of the same class (see errorClass()). The
+ * result is 1-minimal: removing any single square makes the instance
+ * disconnected or the error go away. Obstacles are kept as they are.
+ */
+class Shrinker {
+
+	/**
+	 * Number of moves after which a run is aborted (as it might not terminate
+	 * at all; see Watchdog). This counts as a failure, so non-terminating runs
+	 * can be shrunk as well.
+	 */
+	maxMoves = 1000000;
+
+	/**
+	 * Whether the runs check the invariants (see InvariantChecker), so that
+	 * invariant violations can be shrunk as well.
+	 */
+	check = false;
+
+	/**
+	 * Number of algorithm runs done by the last shrink.
+	 */
+	runs = 0;
+
+	/**
+	 * Called whenever the instance got smaller, with the number of squares
+	 * left.
+	 */
+	onProgress: (squares: number) => void = () => {};
+
+	constructor(public world: World, private algorithm: string,
+			private optionValues: {[name: string]: string}) {}
+
+	/**
+	 * Runs the algorithm on the world, and returns the class of the error it
+	 * throws, or null if it does not fail.
+	 */
+	failure(): string | null {
+		return this.run(this.squaresInSearchOrder());
+	}
+
+	/**
+	 * Shrinks the instance, and returns a world containing the result (with
+	 * the obstacles of the original world). Throws if the algorithm does not
+	 * fail on the original instance.
+	 */
+	shrink(): World {
+		this.runs = 0;
+		let squares = this.squaresInSearchOrder();
+		const expected = this.run(squares);
+		if (expected === null) {
+			throw new Error(`Algorithm ${this.algorithm} does not fail ` +
+					`on this instance`);
+		}
+
+		// the squares are ordered by a breadth-first search, so that the
+		// sets we remove are close together and the remaining instance is
+		// more likely to be connected
+		let granularity = 2;
+		while (squares.length > 1) {
+			const size = Math.ceil(squares.length / granularity);
+			let reduced = false;
+			for (let start = 0; start < squares.length; start += size) {
+				const candidate = squares.slice(0, start)
+						.concat(squares.slice(start + size));
+				if (this.run(candidate) === expected) {
+					squares = candidate;
+					granularity = Math.max(granularity - 1, 2);
+					reduced = true;
+					this.onProgress(squares.length);
+					break;
+				}
+			}
+			if (!reduced) {
+				if (size === 1) {
+					break;
+				}
+				granularity = Math.min(granularity * 2, squares.length);
+			}
+		}
+
+		return this.createWorld(squares);
+	}
+
+	/**
+	 * Runs the algorithm on the given squares, and returns the class of the
+	 * error it throws, or null if it does not fail (or if the squares are not
+	 * connected, in which case the algorithm is not run at all).
+	 */
+	private run(squares: Square[]): string | null {
+		const world = this.createWorld(squares);
+		if (!world.isConnected()) {
+			return null;
+		}
+		world.markComponents();
+		let watchdog = new Watchdog(world);
+		watchdog.maxMoves = this.maxMoves;
+		let sinks: TraceSink[] = [watchdog];
+		if (this.check) {
+			sinks.push(new InvariantChecker(world));
+		}
+		world.tracer = new Tracer(new MultiSink(sinks));
+		this.runs++;
+
+		try {
+			runPhases(world, createPhases(this.algorithm, world,
+					this.optionValues));
+		} catch (e) {
+			return errorClass(e);
+		}
+		return null;
+	}
+
+	/**
+	 * Returns the squares of the world, in the order in which a breadth-first
+	 * search from the downmost-leftmost square visits them (followed by the
+	 * squares it does not reach, if the world is disconnected).
+	 */
+	private squaresInSearchOrder(): Square[] {
+		const cubes = this.world.cubes;
+		let visited = Array(cubes.length).fill(false);
+		let order: number[] = [];
+		const visit = (id: number | null) => {
+			if (id !== null && !visited[id]) {
+				visited[id] = true;
+				order.push(id);
+			}
+		};
+		const start = this.world.downmostLeftmost();
+		if (start !== null) {
+			visit(this.world.getCubeIndex(start.p));
+		}
+		for (let i = 0; i < order.length; i++) {
+			const [x, y] = cubes[order[i]].p;
+			visit(this.world.getCubeIndex([x - 1, y]));
+			visit(this.world.getCubeIndex([x + 1, y]));
+			visit(this.world.getCubeIndex([x, y - 1]));
+			visit(this.world.getCubeIndex([x, y + 1]));
+		}
+		for (let i = 0; i < cubes.length; i++) {
+			visit(i);
+		}
+		return order.map((i) => ({
+			p: [cubes[i].p[0], cubes[i].p[1]] as [number, number],
+			color: cubes[i].color
+		}));
+	}
+
+	/**
+	 * Returns a new world with the given squares and the obstacles of this
+	 * world. The component status of the cubes is not computed.
+	 */
+	private createWorld(squares: Square[]): World {
+		let world = new World();
+		for (const obstacle of this.world.obstacles) {
+			world.addObstacle(obstacle);
+		}
+		world.obstaclesConnect = this.world.obstaclesConnect;
+		world.model = this.world.model;
+		for (const square of squares) {
+			world.addCubeUnmarked(square.p, square.color);
+		}
+		return world;
+	}
+}
+
+export {errorClass, Shrinker};
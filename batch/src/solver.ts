@@ -0,0 +1,228 @@
+import {World} from './world';
+import {Color} from './cube';
+import {MoveStep} from './verify';
+
+/**
+ * A configuration in the search, together with how we got there.
+ */
+type SearchNode = {
+	cells: [number, number][];
+	key: string;
+	moves: number;
+	estimate: number;
+};
+
+/**
+ * How the search reached a configuration.
+ */
+type SearchEdge = {
+	moves: number;
+	parent: string | null;
+	move: MoveStep | null;
+};
+
+/**
+ * Binary min-heap of search nodes, ordered by their estimated total number of
+ * moves.
+ */
+class NodeQueue {
+
+	private heap: SearchNode[] = [];
+
+	get length(): number {
+		return this.heap.length;
+	}
+
+	push(node: SearchNode): void {
+		this.heap.push(node);
+		let i = this.heap.length - 1;
+		while (i > 0) {
+			const parent = Math.floor((i - 1) / 2);
+			if (this.heap[parent].estimate <= this.heap[i].estimate) {
+				break;
+			}
+			[this.heap[parent], this.heap[i]] = [this.heap[i], this.heap[parent]];
+			i = parent;
+		}
+	}
+
+	pop(): SearchNode {
+		const top = this.heap[0];
+		const last = this.heap.pop()!;
+		if (this.heap.length) {
+			this.heap[0] = last;
+			let i = 0;
+			while (true) {
+				const [l, r] = [2 * i + 1, 2 * i + 2];
+				let smallest = i;
+				if (l < this.heap.length &&
+						this.heap[l].estimate < this.heap[smallest].estimate) {
+					smallest = l;
+				}
+				if (r < this.heap.length &&
+						this.heap[r].estimate < this.heap[smallest].estimate) {
+					smallest = r;
+				}
+				if (smallest === i) {
+					break;
+				}
+				[this.heap[smallest], this.heap[i]] = [this.heap[i], this.heap[smallest]];
+				i = smallest;
+			}
+		}
+		return top;
+	}
+}
+
+/**
+ * Exact solver that finds a shortest move sequence using A* search over the
+ * configuration space. This is only feasible for small instances (up to
+ * about 10–14 squares).
+ */
+class Solver {
+
+	/**
+	 * Number of configurations after which the search gives up.
+	 */
+	maxStates = 1000000;
+
+	/**
+	 * Number of configurations visited by the last search.
+	 */
+	statesVisited = 0;
+
+	constructor(public world: World) {}
+
+	/**
+	 * Finds a shortest move sequence that makes the configuration
+	 * xy-monotone. Returns null if the search gave up.
+	 */
+	solveMonotone(): MoveStep[] | null {
+		return this.search(
+			(world) => world.isXYMonotone(),
+			(world) => world.isXYMonotone() ? 0 : 1
+		);
+	}
+
+	/**
+	 * Finds a shortest move sequence that transforms the configuration into
+	 * the given target configuration. Returns null if the search gave up or
+	 * if the target cannot be reached.
+	 *
+	 * As every move changes the position of a single square, the number of
+	 * squares that are not yet on a target cell is a lower bound for the
+	 * number of moves remaining.
+	 */
+	solveTarget(target: [number, number][]): MoveStep[] | null {
+		if (target.length !== this.world.cubes.length) {
+			throw new Error(`Cannot reconfigure ${this.world.cubes.length} ` +
+					`squares into a target with ${target.length} squares`);
+		}
+		const targetKeys = new Set(target.map((p) => p[0] + ',' + p[1]));
+		const misplaced = function (world: World): number {
+			return world.cubes
+				.filter((cube) => !targetKeys.has(cube.p[0] + ',' + cube.p[1]))
+				.length;
+		};
+		return this.search((world) => misplaced(world) === 0, misplaced);
+	}
+
+	/**
+	 * Runs A* with the given goal test and (admissible and consistent)
+	 * heuristic.
+	 */
+	private search(isGoal: (world: World) => boolean,
+			heuristic: (world: World) => number): MoveStep[] | null {
+
+		// for every configuration seen (keyed by World.hash()): the number of
+		// moves in the shortest sequence found so far, the previous
+		// configuration and the move that led from there
+		let parents = new Map<string, SearchEdge>();
+		let queue = new NodeQueue();
+		this.statesVisited = 0;
+
+		const start = this.world.cubes.map((cube) => cube.p);
+		const startKey = this.world.hash();
+		parents.set(startKey, {moves: 0, parent: null, move: null});
+		queue.push({
+			cells: start,
+			key: startKey,
+			moves: 0,
+			estimate: heuristic(this.world)
+		});
+
+		while (queue.length) {
+			const node = queue.pop();
+			if (node.moves > parents.get(node.key)!.moves) {
+				// we found a shorter way to this configuration already
+				continue;
+			}
+			const world = this.toWorld(node.cells);
+			this.statesVisited++;
+
+			if (isGoal(world)) {
+				return this.reconstruct(parents, node.key);
+			}
+			if (this.statesVisited >= this.maxStates) {
+				return null;
+			}
+
+			for (const cube of world.cubes) {
+				for (const move of world.validMovesFrom(cube.p)) {
+					const from = move.sourcePosition();
+					const to = move.targetPosition();
+					move.executeUnmarked();
+					const key = world.hash();
+					const seen = parents.get(key);
+					if (seen && seen.moves <= node.moves + 1) {
+						move.inverse().executeUnmarked();
+						continue;
+					}
+					parents.set(key, {
+						moves: node.moves + 1,
+						parent: node.key,
+						move: [[from[0], from[1]], [to[0], to[1]]]
+					});
+
+					const cells = node.cells.map((p): [number, number] =>
+							(p[0] === from[0] && p[1] === from[1]) ? to : p);
+					queue.push({
+						cells: cells,
+						key: key,
+						moves: node.moves + 1,
+						estimate: node.moves + 1 + heuristic(world)
+					});
+					move.inverse().executeUnmarked();
+				}
+			}
+		}
+
+		return null;
+	}
+
+	private toWorld(cells: [number, number][]): World {
+		let world = new World();
+		for (const obstacle of this.world.obstacles) {
+			world.addObstacle(obstacle);
+		}
+		world.obstaclesConnect = this.world.obstaclesConnect;
+		world.model = this.world.model;
+		for (const p of cells) {
+			world.addCubeUnmarked(p, Color.GRAY);
+		}
+		return world;
+	}
+
+	private reconstruct(parents: Map<string, SearchEdge>,
+			key: string): MoveStep[] {
+		let moves: MoveStep[] = [];
+		let entry = parents.get(key)!;
+		while (entry.parent !== null) {
+			moves.push(entry.move!);
+			entry = parents.get(entry.parent)!;
+		}
+		return moves.reverse();
+	}
+}
+
+export {Solver};
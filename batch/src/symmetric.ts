@@ -0,0 +1,133 @@
+import {Algorithm, World} from './world';
+import {Tracer} from './tracer';
+import {Watchdog} from './watchdog';
+import {Symmetry, symmetries} from './geometry';
+import {findAlgorithm} from './algorithms/registry';
+import {Phase, createPhases, runPhases} from './common';
+
+/**
+ * The moves of a run of an algorithm under a symmetry, per phase, in the frame
+ * of the original world.
+ */
+type SymmetricRun = {
+	symmetry: Symmetry;
+	moves: [[number, number], [number, number]][][];
+	total: number;
+};
+
+/**
+ * Runs an algorithm on copies of the world transformed by each of the 8
+ * symmetries of the grid, and returns the run with the fewest moves (in case
+ * of ties, the first in the order of symmetries(), so the identity is
+ * preferred), with its moves mapped back to the frame of the world. Options
+ * that are instances (such as a target) are transformed along.
+ *
+ * Runs that throw (or that do not terminate, according to the watchdog
+ * created for them with createWatchdog) are skipped; if all runs throw, the
+ * error of the first one is thrown.
+ *
+ * As the algorithm compacts toward the bottom-left in the transformed frame,
+ * the result of the returned run is xy-monotone toward the corresponding
+ * corner of the original frame.
+ */
+function findBestSymmetry(name: string, world: World,
+		optionValues: {[name: string]: string},
+		createWatchdog: (world: World) => Watchdog): SymmetricRun {
+	const algorithm = findAlgorithm(name);
+	for (const option of algorithm.options) {
+		if (option.type !== 'instance') {
+			throw new Error(`Algorithm ${name} cannot run under symmetries, ` +
+					`as its option --${option.name} is not an instance`);
+		}
+	}
+
+	let best: SymmetricRun | null = null;
+	let firstError: any = null;
+	for (const symmetry of symmetries()) {
+		const transform = (json: string) => {
+			let copy = new World();
+			copy.deserialize(json);
+			copy.transform(symmetry.transform);
+			return copy;
+		};
+		let copy = transform(world.serialize());
+		copy.tracer = new Tracer(createWatchdog(copy));
+		let values: {[name: string]: string} = {};
+		for (const option of algorithm.options) {
+			values[option.name] = transform(optionValues[option.name]).serialize();
+		}
+
+		let counts: number[];
+		try {
+			counts = runPhases(copy, createPhases(name, copy, values));
+		} catch (e) {
+			if (firstError === null) {
+				firstError = e;
+			}
+			continue;
+		}
+
+		const total = counts.reduce((a, b) => a + b, 0);
+		if (best !== null && best.total <= total) {
+			continue;
+		}
+		const inverse = symmetry.transform.inverse();
+		const history = copy.getHistory();
+		let moves: [[number, number], [number, number]][][] = [];
+		let start = 0;
+		for (const count of counts) {
+			moves.push(history.slice(start, start + count).map((move) => [
+				inverse.apply(move.sourcePosition()),
+				inverse.apply(move.targetPosition())
+			] as [[number, number], [number, number]]));
+			start += count;
+		}
+		best = {symmetry: symmetry, moves: moves, total: total};
+	}
+
+	if (best === null) {
+		throw firstError;
+	}
+	return best;
+}
+
+/**
+ * Returns the phases of an algorithm that, instead of running the algorithm
+ * on the world directly, replay the best run under a symmetry (see
+ * findBestSymmetry()). The runs are done right away, so this may take a
+ * while. Also returns the symmetry of the replayed run.
+ *
+ * The world has to be in its starting configuration.
+ */
+function createSymmetricPhases(name: string, world: World,
+		optionValues: {[name: string]: string},
+		createWatchdog: (world: World) => Watchdog): [Phase[], Symmetry] {
+	const algorithm = findAlgorithm(name);
+	const best = findBestSymmetry(name, world, optionValues, createWatchdog);
+	const phases = best.moves.map((moves, i) => ({
+		name: algorithm.phases[i],
+		algorithm: replay(world, moves, best.symmetry),
+		marked: algorithm.marked
+	}));
+	return [phases, best.symmetry];
+}
+
+/**
+ * Executes the given moves on the world.
+ */
+function* replay(world: World, moves: [[number, number], [number, number]][],
+		symmetry: Symmetry): Algorithm {
+	world.tracer.step('Replaying run under symmetry', symmetry.name);
+	for (const [from, to] of moves) {
+		const cube = world.getCube(from);
+		const move = cube === null ? null : world.getMoveTo(cube, to);
+		if (move === null) {
+			throw new Error(`Cannot replay move (${from[0]}, ${from[1]}) → ` +
+					`(${to[0]}, ${to[1]}) of the run under symmetry ` +
+					symmetry.name);
+		}
+		yield move;
+	}
+}
+
+export {SymmetricRun, findBestSymmetry, createSymmetricPhases};
@@ -0,0 +1,257 @@
+const fs = require('fs');
+
+/**
+ * An event in the trace of an algorithm run. Every event has a time: the
+ * number of milliseconds since the tracer was created.
+ *
+ *  * phase-start and phase-end: a phase of the algorithm (such as gather or
+ *    compact) starts or ends; phase-end includes the number of moves made in
+ *    the phase and its duration in milliseconds;
+ *
+ *  * move: the algorithm made a move, which is the step-th move overall; the
+ *    label is that of the last sub-step (if any) in the current phase;
+ *
+ *  * step and sub-step: the algorithm starts doing something else, described
+ *    by the label (which is fixed text, so that events can be grouped by it)
+ *    and the optional detail (such as the coordinates it is working on).
+ */
+type TraceEvent = {
+	type: 'phase-start';
+	phase: string;
+	time: number;
+} | {
+	type: 'phase-end';
+	phase: string;
+	moves: number;
+	duration: number;
+	time: number;
+} | {
+	type: 'move';
+	phase: string | null;
+	label: string | null;
+	step: number;
+	from: [number, number];
+	to: [number, number];
+	time: number;
+} | {
+	type: 'step' | 'sub-step';
+	label: string;
+	detail?: string;
+	time: number;
+};
+
+/**
+ * Receives the events of a tracer, for example to print or store them.
+ */
+interface TraceSink {
+	write(event: TraceEvent): void;
+
+	/**
+	 * Called when no events follow anymore.
+	 */
+	close(): void;
+}
+
+/**
+ * Reports what an algorithm does, as typed events sent to a sink.
+ *
+ * Every world has a tracer (which by default discards all events), and
+ * algorithms report their steps to it. Phases are reported by whoever runs
+ * the algorithm (see runPhases()), and moves by the world when they are
+ * executed.
+ */
+class Tracer {
+
+	private start = Date.now();
+	private phase: string | null = null;
+	private phaseStart = 0;
+	private phaseMoves = 0;
+	private label: string | null = null;
+	private moveCount = 0;
+
+	constructor(public sink: TraceSink = new NullSink()) {}
+
+	startPhase(phase: string): void {
+		this.phase = phase;
+		this.phaseStart = this.now();
+		this.phaseMoves = 0;
+		this.label = null;
+		this.sink.write({type: 'phase-start', phase: phase, time: this.phaseStart});
+	}
+
+	endPhase(): void {
+		if (this.phase === null) {
+			return;
+		}
+		const time = this.now();
+		this.sink.write({
+			type: 'phase-end',
+			phase: this.phase,
+			moves: this.phaseMoves,
+			duration: time - this.phaseStart,
+			time: time
+		});
+		this.phase = null;
+		this.label = null;
+	}
+
+	move(from: [number, number], to: [number, number]): void {
+		this.moveCount++;
+		this.phaseMoves++;
+		this.sink.write({
+			type: 'move',
+			phase: this.phase,
+			label: this.label,
+			step: this.moveCount,
+			from: [from[0], from[1]],
+			to: [to[0], to[1]],
+			time: this.now()
+		});
+	}
+
+	/**
+	 * Reports that the algorithm starts a new step.
+	 */
+	step(label: string, detail?: string): void {
+		this.label = label;
+		this.sink.write({type: 'step', label: label, detail: detail, time: this.now()});
+	}
+
+	/**
+	 * Reports that the algorithm starts a new sub-step, that is, a smaller
+	 * part of a step.
+	 */
+	subStep(label: string, detail?: string): void {
+		this.label = label;
+		this.sink.write({type: 'sub-step', label: label, detail: detail, time: this.now()});
+	}
+
+	close(): void {
+		this.sink.close();
+	}
+
+	private now(): number {
+		return Date.now() - this.start;
+	}
+}
+
+/**
+ * Discards all events.
+ */
+class NullSink implements TraceSink {
+	write(event: TraceEvent): void {}
+	close(): void {}
+}
+
+/**
+ * Prints the steps, sub-steps and moves to the console.
+ */
+class ConsoleSink implements TraceSink {
+	write(event: TraceEvent): void {
+		switch (event.type) {
+			case 'step':
+				console.log('>>> ' + ConsoleSink.describe(event.label, event.detail));
+				break;
+			case 'sub-step':
+				console.log(ConsoleSink.describe(event.label, event.detail));
+				break;
+			case 'move':
+				console.log(`Time step ${event.step}. Move: ` +
+						`(${event.from[0]}, ${event.from[1]}) → ` +
+						`(${event.to[0]}, ${event.to[1]})`);
+				break;
+		}
+	}
+
+	close(): void {}
+
+	private static describe(label: string, detail?: string): string {
+		return detail === undefined ? label : label + ' ' + detail;
+	}
+}
+
+/**
+ * Writes all events to a file, as JSON Lines (one JSON object per line).
+ */
+class JsonLinesSink implements TraceSink {
+
+	private fd: number;
+	private lines: string[] = [];
+
+	constructor(fileName: string) {
+		this.fd = fs.openSync(fileName, 'w');
+	}
+
+	write(event: TraceEvent): void {
+		this.lines.push(JSON.stringify(event));
+		if (this.lines.length >= 1000) {
+			this.flush();
+		}
+	}
+
+	close(): void {
+		this.flush();
+		fs.closeSync(this.fd);
+	}
+
+	private flush(): void {
+		if (this.lines.length) {
+			fs.writeSync(this.fd, this.lines.join('\n') + '\n');
+			this.lines = [];
+		}
+	}
+}
+
+/**
+ * Sends all events to several sinks.
+ */
+class MultiSink implements TraceSink {
+
+	constructor(private sinks: TraceSink[]) {}
+
+	write(event: TraceEvent): void {
+		this.sinks.forEach((sink) => sink.write(event));
+	}
+
+	close(): void {
+		this.sinks.forEach((sink) => sink.close());
+	}
+}
+
+/**
+ * Counts the moves per phase, and within each phase per label of the step or
+ * sub-step they were made in (for example, per type of compaction move).
+ */
+class BreakdownSink implements TraceSink {
+
+	readonly counts: {[phase: string]: {[label: string]: number}} = {};
+
+	write(event: TraceEvent): void {
+		if (event.type !== 'move') {
+			return;
+		}
+		const phase = event.phase === null ? '-' : event.phase;
+		const label = event.label === null ? '-' : event.label;
+		if (!this.counts.hasOwnProperty(phase)) {
+			this.counts[phase] = {};
+		}
+		this.counts[phase][label] = (this.counts[phase][label] || 0) + 1;
+	}
+
+	close(): void {}
+
+	/**
+	 * Returns the counts as text, for example
+	 * `gather: 12 Gathering light square; compact: 8 Free move, 2 Top corner move`.
+	 */
+	toString(): string {
+		return Object.keys(this.counts).map((phase) =>
+			phase + ': ' + Object.keys(this.counts[phase])
+				.map((label) => `${this.counts[phase][label]} ${label}`)
+				.join(', ')
+		).join('; ');
+	}
+}
+
+export {TraceEvent, TraceSink, Tracer, NullSink, ConsoleSink, JsonLinesSink,
+	MultiSink, BreakdownSink};
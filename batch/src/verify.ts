@@ -0,0 +1,147 @@
+import {World, Move} from './world';
+import {Transform} from './geometry';
+
+/**
+ * A single move in a move file, given as the cell we're moving from and the
+ * cell we're moving towards.
+ */
+type MoveStep = [[number, number], [number, number]];
+
+/**
+ * Outcome of verifying a move sequence.
+ */
+type VerificationResult = {
+	/**
+	 * Number of moves that were executed successfully.
+	 */
+	validMoves: number;
+
+	/**
+	 * Index of the first invalid move, or null if all moves were valid.
+	 */
+	invalidMove: number | null;
+
+	/**
+	 * Human-readable reason why the move was invalid (null if all moves were
+	 * valid).
+	 */
+	reason: string | null;
+};
+
+/**
+ * Replays move sequences on a world, checking every move for validity.
+ */
+class Verifier {
+
+	constructor(public world: World) {}
+
+	/**
+	 * Reads a move file. Two formats are supported:
+	 *
+	 *  * `{"movepaths": [[p_0, p_1, ...], ...]}`, in which each path moves a
+	 *    single square over the cells p_0, p_1, ... (every two consecutive
+	 *    cells form one move); this is the format written by the `moves` command
+	 *    and by MSDP;
+	 *
+	 *  * `{"moves": [[p, q], ...]}`, in which each entry is a single move
+	 *    from p to q.
+	 *
+	 * If `msdp` is set, the cells are in MSDP's (row, column) coordinates,
+	 * which are converted to world coordinates using the bounds of the world
+	 * at the time the move file is read.
+	 */
+	parseMoves(moveJson: string, msdp = false): MoveStep[] {
+		const sequence: any = JSON.parse(moveJson);
+		const frame = msdp ? Transform.fromMsdp(this.world.bounds()) :
+				Transform.IDENTITY;
+		const convert = (c: [number, number]) => frame.apply(c);
+
+		let moves: MoveStep[] = [];
+		if (sequence['movepaths']) {
+			for (const path of sequence['movepaths']) {
+				for (let i = 1; i < path.length; i++) {
+					moves.push([convert(path[i - 1]), convert(path[i])]);
+				}
+			}
+		} else if (sequence['moves']) {
+			for (const move of sequence['moves']) {
+				moves.push([convert(move[0]), convert(move[1])]);
+			}
+		} else {
+			throw new Error('Move file contains neither movepaths nor moves');
+		}
+		return moves;
+	}
+
+	/**
+	 * Executes the given moves one by one, and stops at the first invalid
+	 * move.
+	 */
+	verify(moves: MoveStep[]): VerificationResult {
+		for (let i = 0; i < moves.length; i++) {
+			const [from, to] = moves[i];
+			const [move, reason] = this.findMove(from, to);
+			if (move === null) {
+				return {
+					validMoves: i,
+					invalidMove: i,
+					reason: reason
+				};
+			}
+			this.world.executeMove(move, false);
+		}
+		return {
+			validMoves: moves.length,
+			invalidMove: null,
+			reason: null
+		};
+	}
+
+	/**
+	 * Returns the valid move that brings the square at `from` to `to`, in the
+	 * move model of the world. If no such move exists, returns null together
+	 * with the reason why.
+	 *
+	 * In the sliding and pivoting models, moves between diagonally adjacent
+	 * cells are interpreted as corner moves; both corner moves between the two
+	 * cells are tried.
+	 */
+	findMove(from: [number, number], to: [number, number]):
+			[Move, null] | [null, string] {
+		if (!this.world.hasCube(from)) {
+			return [null, 'there is no square to move'];
+		}
+		const moves = this.world.model.movesBetween(this.world, from, to);
+		if (!moves.length) {
+			return [null, 'the cells are not adjacent, so this is not a single move'];
+		}
+		if (this.world.hasCube(to)) {
+			return [null, 'the target cell is occupied by a square'];
+		}
+		if (this.world.hasObstacle(to)) {
+			return [null, 'the target cell is occupied by an obstacle'];
+		}
+
+		let reasons: string[] = [];
+		for (const move of moves) {
+			if (move.isValid()) {
+				return [move, null];
+			}
+			reasons.push(this.diagnose(move));
+		}
+		return [null, reasons.join('; ')];
+	}
+
+	/**
+	 * Determines why the given move is invalid, assuming that there is a
+	 * square to move and that the target cell is empty.
+	 */
+	private diagnose(move: Move): string {
+		if (!move.isValidIgnoreConnectivity()) {
+			return this.world.model.diagnose(move);
+		}
+		return 'the move disconnects the configuration';
+	}
+}
+
+export {MoveStep, VerificationResult, Verifier};
@@ -1,11 +1,24 @@
 import {Cube, Color, ComponentStatus} from './cube';
-
-type WorldCell = {
-	cubeId: number | null;
-};
+import {Connectivity} from './connectivity';
+import {BlockCutTree} from './block-cut-tree';
+import {Grid} from './grid';
+import {Annotation} from './annotation';
+import {Tracer} from './tracer';
+import {Transform} from './geometry';
+import {MoveModel, findMoveModel} from './move-model';
 
 type Algorithm = Generator<Move, void, undefined>;
 
+/**
+ * A move in the move history of a world, together with the index of the cube
+ * it moved and the annotations of the algorithm at the time of the move.
+ */
+type HistoryEntry = {
+	move: Move;
+	cubeIndex: number;
+	annotations: Annotation[];
+};
+
 enum MoveDirection {
 	N = "N",
 	E = "E",
@@ -18,14 +31,21 @@ enum MoveDirection {
 	SE = "SE",
 	SW = "SW",
 	WS = "WS",
-	WN = "WN"
+	WN = "WN",
+	T = "T"
 }
 
 /**
- * Representation of a single cube move (either slide or corner).
+ * Representation of a single cube move (either slide or corner, or a teleport
+ * to an arbitrary cell in move models that allow that, see MoveModel).
  */
 class Move {
-	constructor(public world: World, public position: [number, number], public direction: MoveDirection) {
+	/**
+	 * @param target The cell we're moving towards, for teleports (direction
+	 * T); for other moves, this follows from the direction.
+	 */
+	constructor(public world: World, public position: [number, number], public direction: MoveDirection,
+			public target: [number, number] | null = null) {
 	}
 
 	/**
@@ -60,39 +80,44 @@ class Move {
 	 * Returns the coordinate of the cell we're moving towards.
 	 */
 	targetPosition(): [number, number] {
+		if (this.target !== null) {
+			return [this.target[0], this.target[1]];
+		}
 		return Move.targetPositionFromFields(this.position, this.direction);
 	}
 
 	/**
-	 * Checks if this move is valid, but ignores the connectivity requirement
-	 * (i.e., still returns true if this move disconnects the configuration
-	 * but otherwise is valid).
+	 * Returns the move that undoes this move, that is, the move that brings
+	 * the cube from the target position back to the source position.
 	 *
-	 * This avoids the need to do a BFS to check connectivity.
+	 * For a corner move, this traverses the corner in the opposite order (for
+	 * example, the inverse of NW is ES), so it pivots around the same cube.
 	 */
-	isValidIgnoreConnectivity(): boolean {
-		if (this.world.getCube(this.targetPosition())) {
-			return false;
+	inverse(): Move {
+		if (this.target !== null) {
+			return new Move(this.world, this.target, this.direction,
+					this.position);
 		}
-
-		let has = this.world.hasNeighbors(this.position);
-
-		switch (this.direction) {
-			case "N":
-				return (has['W'] && has['NW']) || (has['E'] && has['NE']);
-			case "E":
-				return (has['N'] && has['NE']) || (has['S'] && has['SE']);
-			case "S":
-				return (has['W'] && has['SW']) || (has['E'] && has['SE']);
-			case "W":
-				return (has['N'] && has['NW']) || (has['S'] && has['SW']);
-
-			default:
-				// for corner moves, need to ensure that there is no cube in
-				// the first direction (which would be in our way) and there
-				// is a cube in the second direction (that we can pivot along)
-				return !has[this.direction[0]] && has[this.direction[1]];
+		const opposite: {[key: string]: string} = {
+			'N': 'S', 'E': 'W', 'S': 'N', 'W': 'E'
+		};
+		let direction = '';
+		for (let i = this.direction.length - 1; i >= 0; i--) {
+			direction += opposite[this.direction[i]];
 		}
+		return new Move(this.world, this.targetPosition(),
+				<MoveDirection> direction);
+	}
+
+	/**
+	 * Checks if this move is valid in the move model of the world, but ignores
+	 * the connectivity requirement (i.e., still returns true if this move
+	 * disconnects the configuration but otherwise is valid).
+	 *
+	 * This avoids the need to do a BFS to check connectivity.
+	 */
+	isValidIgnoreConnectivity(): boolean {
+		return this.world.model.isValidIgnoreConnectivity(this);
 	}
 
 	/**
@@ -105,6 +130,13 @@ class Move {
 		if (!this.world.isConnected(this.position)) {
 			return false;
 		}
+		// if the move used an obstacle for support, the cube may not be
+		// attached to the configuration anymore after the move
+		if (this.world.obstacles.length &&
+				!this.world.isConnectedAfterMove(this.position,
+					this.targetPosition())) {
+			return false;
+		}
 		return true;
 	}
 	
@@ -153,53 +185,83 @@ class Move {
 
 /**
  * Collection of cubes on the grid.
+ *
+ * Every cube gets an ID when it is added, which stays the same for the life of
+ * the cube. Separately, the cubes array is kept dense: removing a cube moves
+ * the last cube into its index, so the index of a cube may change (but its ID
+ * does not).
  */
 class World {
 
-	world: WorldCell[][] = [];
 	cubes: Cube[] = [];
+	obstacles: [number, number][] = [];
+
+	/**
+	 * Whether obstacles count toward connectivity, that is, whether two cubes
+	 * that are both adjacent to the same (group of) obstacles are considered
+	 * connected.
+	 */
+	obstaclesConnect = false;
+
+	/**
+	 * The rules for which moves the cubes can make.
+	 */
+	model: MoveModel = findMoveModel('sliding');
 
 	currentMove: Move | null = null;
 
+	// the executed moves, of which the first historyStep ones are currently
+	// applied (the others have been undone and can be redone)
+	private history: HistoryEntry[] = [];
+	private historyStep = 0;
+
+	// the annotations that are attached to the moves executed from now on
+	private annotations: Annotation[] = [];
+
 	/**
-	 * Creates the world.
+	 * Receives what the algorithms running on this world do: their steps, and
+	 * the moves executed with executeMove(). By default, this discards
+	 * everything.
 	 */
-	constructor() {
-	}
+	tracer = new Tracer();
 
-	private getColumn(x: number): WorldCell[] {
-		if (!this.world[x]) {
-			this.world[x] = [];
-		}
-		return this.world[x];
-	}
+	private cells = new Grid();
+	private connectivity = new Connectivity(this);
 
-	private getCell([x, y]: [number, number]): WorldCell {
-		let column = this.getColumn(x);
-		if (!column[y]) {
-			column[y] = {
-				cubeId: null
-			};
-		}
-		return column[y];
+	// the ID for the next cube that gets added
+	private nextCubeId = 0;
+
+	/**
+	 * Creates the world.
+	 */
+	constructor() {
 	}
 
 	/**
 	 * Returns the ID of the cube at the given location, or null if that cell is empty.
 	 */
 	getCubeId(p: [number, number]): number | null {
-		return this.getCell(p).cubeId;
+		const cube = this.getCube(p);
+		return cube === null ? null : cube.id;
+	}
+
+	/**
+	 * Returns the index (in the cubes array) of the cube at the given
+	 * location, or null if that cell is empty.
+	 */
+	getCubeIndex(p: [number, number]): number | null {
+		return this.cells.getCubeIndex(p[0], p[1]);
 	}
 
 	/**
 	 * Returns the cube at the given location, or null if that cell is empty.
 	 */
 	getCube(p: [number, number]): Cube | null {
-		const id = this.getCubeId(p);
-		if (id === null) {
+		const index = this.getCubeIndex(p);
+		if (index === null) {
 			return null;
 		}
-		return this.cubes[id];
+		return this.cubes[index];
 	}
 
 	/**
@@ -209,12 +271,55 @@ class World {
 		return !!this.getCube(p);
 	}
 
+	/**
+	 * Checks if an obstacle exists at the given location.
+	 */
+	hasObstacle(p: [number, number]): boolean {
+		return this.cells.hasObstacle(p[0], p[1]);
+	}
+
+	/**
+	 * Checks if the given location is occupied by either a cube or an
+	 * obstacle.
+	 */
+	isBlocked(p: [number, number]): boolean {
+		return this.hasCube(p) || this.hasObstacle(p);
+	}
+
+	/**
+	 * Adds an obstacle at the given location; throws if that location is
+	 * already occupied.
+	 */
+	addObstacle(p: [number, number]): void {
+		if (this.isBlocked(p)) {
+			throw new Error(`Tried to insert obstacle on top of another object ` +
+					`at (${p[0]}, ${p[1]})`);
+		}
+		this.cells.setObstacle(p[0], p[1], true);
+		this.obstacles.push([p[0], p[1]]);
+	}
+
+	/**
+	 * Removes the obstacle at the given location; throws if no obstacle exists
+	 * there.
+	 */
+	removeObstacle(p: [number, number]): void {
+		if (!this.hasObstacle(p)) {
+			throw new Error(`Tried to remove non-existing obstacle ` +
+					`at (${p[0]}, ${p[1]})`);
+		}
+		this.cells.setObstacle(p[0], p[1], false);
+		this.obstacles = this.obstacles.filter(
+				(o) => o[0] !== p[0] || o[1] !== p[1]);
+	}
+
 	/**
 	 * Adds a new cube of the given color at the given location; throws if a
 	 * cube already exists at that location.
 	 */
 	addCube(p: [number, number], color: Color): Cube {
 		const cube = this.addCubeUnmarked(p, color);
+		this.clearHistory();
 		this.markComponents();
 		return cube;
 	}
@@ -227,9 +332,14 @@ class World {
 			throw new Error(`Tried to insert cube on top of another cube ` +
 					`at (${p[0]}, ${p[1]})`);
 		}
-		const cube = new Cube(this, p, color);
-		this.getCell(p).cubeId = this.cubes.length;
+		if (this.hasObstacle(p)) {
+			throw new Error(`Tried to insert cube on top of an obstacle ` +
+					`at (${p[0]}, ${p[1]})`);
+		}
+		const cube = new Cube(this, this.nextCubeId++, p, color);
+		this.cells.setCubeIndex(p[0], p[1], this.cubes.length);
 		this.cubes.push(cube);
+		this.connectivity.invalidate();
 		return cube;
 	}
 
@@ -257,10 +367,16 @@ class World {
 					`at (${to[0]}, ${to[1]})`);
 		}
 
-		const id = this.getCubeId(from)!;
-		this.getCell(from).cubeId = null;
-		this.getCell(to).cubeId = id;
-		this.cubes[id].p = [to[0], to[1]];
+		if (this.hasObstacle(to)) {
+			throw new Error(`Tried to move cube on top of an obstacle ` +
+					`at (${to[0]}, ${to[1]})`);
+		}
+
+		const index = this.getCubeIndex(from)!;
+		this.cells.setCubeIndex(from[0], from[1], null);
+		this.cells.setCubeIndex(to[0], to[1], index);
+		this.cubes[index].p = [to[0], to[1]];
+		this.connectivity.moved(from, to);
 	}
 
 	/**
@@ -268,6 +384,7 @@ class World {
 	 */
 	removeCube(p: [number, number]): void {
 		this.removeCubeUnmarked(p);
+		this.clearHistory();
 		this.markComponents();
 	}
 
@@ -279,37 +396,66 @@ class World {
 			throw new Error(`Tried to remove non-existing cube ` +
 					`at (${p[0]}, ${p[1]})`);
 		}
-		const cube = this.getCube(p)!;
-		this.getCell(p).cubeId = null;
-		this.cubes = this.cubes.filter((b) => b !== cube);
-		// because removing the cube from this.cubes changes the indices, we
-		// need to update the cubeIds as well
-		for (let i = 0; i < this.cubes.length; i++) {
-			this.getCell(this.cubes[i].p).cubeId = i;
+		this.takeOut(p);
+		this.connectivity.invalidate();
+	}
+
+	/**
+	 * Removes the cube at the given location from the cubes array and the
+	 * grid, in O(1) time: the last cube moves into its index (keeping its ID).
+	 */
+	private takeOut(p: [number, number]): Cube {
+		const index = this.getCubeIndex(p)!;
+		const cube = this.cubes[index];
+		this.cells.setCubeIndex(p[0], p[1], null);
+		const last = this.cubes.pop()!;
+		if (last !== cube) {
+			this.cubes[index] = last;
+			this.cells.setCubeIndex(last.p[0], last.p[1], index);
+		}
+		return cube;
+	}
+
+	/**
+	 * Undoes takeOut(): puts the cube back at the given index, and moves the
+	 * cube that took over that index back to the end.
+	 */
+	private putBack(cube: Cube, index: number): void {
+		if (index < this.cubes.length) {
+			const other = this.cubes[index];
+			this.cells.setCubeIndex(other.p[0], other.p[1], this.cubes.length);
+			this.cubes.push(other);
 		}
+		this.cubes[index] = cube;
+		this.cells.setCubeIndex(cube.p[0], cube.p[1], index);
 	}
 
 	/**
 	 * Returns an object with keys 'N', 'NE', 'E', etc. with booleans
 	 * indicating if the given cell has neighboring cubes in that direction.
+	 * If includeObstacles is set, neighboring obstacles are reported as well.
 	 */
-	hasNeighbors(p: [number, number]): {[key: string]: boolean} {
+	hasNeighbors(p: [number, number], includeObstacles = false):
+			{[key: string]: boolean} {
 		const [x, y] = p;
-		let has: {[key: string]: boolean} = {};
-		has['N'] = this.hasCube([x, y + 1]);
-		has['NE'] = this.hasCube([x + 1, y + 1]);
-		has['E'] = this.hasCube([x + 1, y]);
-		has['SE'] = this.hasCube([x + 1, y - 1]);
-		has['S'] = this.hasCube([x, y - 1]);
-		has['SW'] = this.hasCube([x - 1, y - 1]);
-		has['W'] = this.hasCube([x - 1, y]);
-		has['NW'] = this.hasCube([x - 1, y + 1]);
-		return has;
+		const has = includeObstacles ?
+				((p: [number, number]) => this.isBlocked(p)) :
+				((p: [number, number]) => this.hasCube(p));
+		let result: {[key: string]: boolean} = {};
+		result['N'] = has([x, y + 1]);
+		result['NE'] = has([x + 1, y + 1]);
+		result['E'] = has([x + 1, y]);
+		result['SE'] = has([x + 1, y - 1]);
+		result['S'] = has([x, y - 1]);
+		result['SW'] = has([x - 1, y - 1]);
+		result['W'] = has([x - 1, y]);
+		result['NW'] = has([x - 1, y + 1]);
+		return result;
 	}
 
 	/**
 	 * Given a cube, returns a list of all the moves starting at that cube that
-	 * are valid.
+	 * are valid (in the move model of the world).
 	 *
 	 * If the configuration would be disconnected without the given cube, no
 	 * move is valid, so an empty array is returned.
@@ -321,11 +467,14 @@ class World {
 			return [];
 		}
 
-		for (const direction of Object.keys(MoveDirection)) {
-			const m = new Move(this, p, MoveDirection[<MoveDirection> direction]);
+		for (const m of this.model.candidateMoves(this, p)) {
 			if (m.isValidIgnoreConnectivity()) {
 				// already checked connectivity before (yay, efficiency!)
-				moves.push(m);
+				// (except if obstacles may have been used for support)
+				if (!this.obstacles.length ||
+						this.isConnectedAfterMove(p, m.targetPosition())) {
+					moves.push(m);
+				}
 			}
 		}
 
@@ -349,22 +498,39 @@ class World {
 	/**
 	 * Executes the shortest move path between the given cubes.
 	 *
-	 * Throws if no move path is possible.
+	 * Throws if no move path is possible (use findMovePath() to check this
+	 * without throwing).
 	 *
 	 * @param from The source coordinate, containing the cube we want to move.
 	 * @param to The target coordinate, which should be an empty cell.
 	 */
 	*shortestMovePath(from: [number, number], to: [number, number]): Algorithm {
-		
+		const path = this.findMovePath(from, to);
+		if (path === null) {
+			throw new Error("No move path possible from " + from + " to " + to);
+		}
+		yield* path;
+	}
+
+	/**
+	 * Returns the shortest move path between the given cubes, or null if no
+	 * move path is possible.
+	 *
+	 * @param from The source coordinate, containing the cube we want to move.
+	 * @param to The target coordinate, which should be an empty cell.
+	 */
+	findMovePath(from: [number, number], to: [number, number]): Move[] | null {
+
 		// temporarily remove the origin cube from the configuration, to avoid
 		// invalid moves in the resulting move path (because we could slide
 		// along the origin cube itself)
-		const cube = this.getCube(from);
-		if (cube === null) {
+		const index = this.getCubeIndex(from);
+		if (index === null) {
 			throw new Error("Cannot compute move path from non-existing cube" +
 				` (${from[0]}, ${from[1]})`);
 		}
-		this.removeCubeUnmarked(from);
+		const cube = this.takeOut(from);
+		this.connectivity.invalidate();
 
 		// do BFS over the move graph
 		let seen: {[key: string]: {'seen': boolean, 'move': Move | null}} = {};
@@ -391,9 +557,9 @@ class World {
 		}
 
 		if (!seen[to[0] + "," + to[1]]) {
-			const newCube = this.addCubeUnmarked(cube.p, cube.color);
-			newCube.componentStatus = cube.componentStatus;
-			throw new Error("No move path possible from " + from + " to " + to);
+			this.putBack(cube, index);
+			this.connectivity.invalidate();
+			return null;
 		}
 
 		// reconstruct the path
@@ -406,17 +572,17 @@ class World {
 		}
 
 		// put the origin cube back
-		const newCube = this.addCubeUnmarked(cube.p, cube.color);
-		newCube.componentStatus = cube.componentStatus;
+		this.putBack(cube, index);
+		this.connectivity.invalidate();
 
-		yield* path;
+		return path;
 	}
 
 	nextStep(algorithm: Algorithm, step: number): void {
 
 		// first actually execute the current move
 		if (this.currentMove) {
-			this.currentMove.execute();
+			this.executeMove(this.currentMove);
 		} else {
 			this.markComponents();
 		}
@@ -438,7 +604,7 @@ class World {
 
 		// first actually execute the current move
 		if (this.currentMove) {
-			this.currentMove.executeUnmarked();
+			this.executeMove(this.currentMove, false);
 		}
 
 		// now figure out the next move
@@ -454,6 +620,163 @@ class World {
 		this.currentMove = output.value;
 	}
 
+	/**
+	 * Executes the given move and appends it to the move history. Moves that
+	 * were undone before are discarded, so they cannot be redone anymore.
+	 *
+	 * If marked is false, this does not update the component status of the
+	 * cubes.
+	 */
+	executeMove(move: Move, marked = true): void {
+		const cubeIndex = this.getCubeIndex(move.sourcePosition())!;
+		if (marked) {
+			move.execute();
+		} else {
+			move.executeUnmarked();
+		}
+		this.history.splice(this.historyStep);
+		this.history.push({
+			move: move,
+			cubeIndex: cubeIndex,
+			annotations: this.annotations
+		});
+		this.historyStep++;
+		this.tracer.move(move.sourcePosition(), move.targetPosition());
+	}
+
+	/**
+	 * Returns the moves in the move history, including the ones that have
+	 * been undone.
+	 */
+	getHistory(): Move[] {
+		return this.history.map((entry) => entry.move);
+	}
+
+	/**
+	 * Returns the number of moves in the history that are currently applied.
+	 */
+	getHistoryStep(): number {
+		return this.historyStep;
+	}
+
+	/**
+	 * Forgets the move history and the current annotations. This happens
+	 * automatically when cubes are added or removed, or when the world is
+	 * reset.
+	 */
+	clearHistory(): void {
+		this.history = [];
+		this.historyStep = 0;
+		this.annotations = [];
+	}
+
+	/**
+	 * Adds an annotation, which is attached to every move executed from now
+	 * on, until clearAnnotations() is called. Algorithms use this to record
+	 * what they are doing, such as which square they are gathering.
+	 */
+	annotate(annotation: Annotation): void {
+		// copy, as the old array is shared with the moves in the history
+		this.annotations = this.annotations.concat([annotation]);
+	}
+
+	/**
+	 * Removes the current annotations, so that the moves executed from now on
+	 * have no annotations until annotate() is called again.
+	 */
+	clearAnnotations(): void {
+		this.annotations = [];
+	}
+
+	/**
+	 * Returns the annotations of the move with the given index in the move
+	 * history. For the index just after the last move, returns the current
+	 * annotations, which would be attached to the next move; if an algorithm
+	 * threw, these describe what it was trying to do.
+	 */
+	getAnnotations(index: number): Annotation[] {
+		if (index === this.history.length) {
+			return this.annotations;
+		}
+		this.checkHistoryStep(index);
+		return this.history[index].annotations;
+	}
+
+	/**
+	 * Undoes the last applied move in the history, and returns it (or null
+	 * if no moves are applied).
+	 */
+	undo(): Move | null {
+		if (this.historyStep === 0) {
+			return null;
+		}
+		const move = this.history[this.historyStep - 1].move;
+		this.seek(this.historyStep - 1);
+		return move;
+	}
+
+	/**
+	 * Redoes the first undone move in the history, and returns it (or null
+	 * if no moves were undone).
+	 */
+	redo(): Move | null {
+		if (this.historyStep === this.history.length) {
+			return null;
+		}
+		const move = this.history[this.historyStep].move;
+		this.seek(this.historyStep + 1);
+		return move;
+	}
+
+	/**
+	 * Undoes or redoes moves until the given number of moves in the history
+	 * is applied.
+	 *
+	 * This should not be used while an algorithm is running, as the algorithm
+	 * would not know about the changed configuration; the current move is
+	 * dropped.
+	 */
+	seek(step: number): void {
+		this.checkHistoryStep(step);
+		while (this.historyStep > step) {
+			this.historyStep--;
+			this.history[this.historyStep].move.inverse().executeUnmarked();
+		}
+		while (this.historyStep < step) {
+			this.history[this.historyStep].move.executeUnmarked();
+			this.historyStep++;
+		}
+		this.currentMove = null;
+		this.markComponents();
+	}
+
+	/**
+	 * Returns the positions of the cubes (in the order of the cubes array)
+	 * after the given number of moves in the history, without changing the
+	 * world.
+	 */
+	snapshot(step: number): [number, number][] {
+		this.checkHistoryStep(step);
+		let positions = this.cubes.map(
+				(cube): [number, number] => [cube.p[0], cube.p[1]]);
+		for (let i = this.historyStep - 1; i >= step; i--) {
+			const [x, y] = this.history[i].move.sourcePosition();
+			positions[this.history[i].cubeIndex] = [x, y];
+		}
+		for (let i = this.historyStep; i < step; i++) {
+			const [x, y] = this.history[i].move.targetPosition();
+			positions[this.history[i].cubeIndex] = [x, y];
+		}
+		return positions;
+	}
+
+	private checkHistoryStep(step: number): void {
+		if (!Number.isInteger(step) || step < 0 || step > this.history.length) {
+			throw new Error(`Cannot go to step ${step}, the move history ` +
+					`has ${this.history.length} moves`);
+		}
+	}
+
 	/**
 	 * Returns the degree of the given cube (in 4-connectivity).
 	 */
@@ -545,25 +868,113 @@ class World {
 	 */
 	reset(): void {
 		this.cubes.forEach((cube) => {
-			this.getCell(cube.p).cubeId = null;
+			this.cells.setCubeIndex(cube.p[0], cube.p[1], null);
 		});
 		for (let i = 0; i < this.cubes.length; i++) {
 			const cube = this.cubes[i];
 			cube.p = [cube.resetPosition[0], cube.resetPosition[1]];
-			this.getCell(cube.p).cubeId = i;
+			this.cells.setCubeIndex(cube.p[0], cube.p[1], i);
+		}
+		this.connectivity.invalidate();
+		this.clearHistory();
+		this.markComponents();
+	}
+
+	/**
+	 * Moves every cube (and its starting location) and every obstacle to its
+	 * image under the given transformation. This clears the move history.
+	 */
+	transform(t: Transform): void {
+		this.cubes.forEach((cube) => {
+			this.cells.setCubeIndex(cube.p[0], cube.p[1], null);
+		});
+		this.obstacles.forEach((p) => {
+			this.cells.setObstacle(p[0], p[1], false);
+		});
+		this.obstacles = this.obstacles.map((p) => t.apply(p));
+		this.obstacles.forEach((p) => {
+			this.cells.setObstacle(p[0], p[1], true);
+		});
+		for (let i = 0; i < this.cubes.length; i++) {
+			const cube = this.cubes[i];
+			cube.p = t.apply(cube.p);
+			cube.resetPosition = t.apply(cube.resetPosition);
+			this.cells.setCubeIndex(cube.p[0], cube.p[1], i);
 		}
+		this.currentMove = null;
+		this.connectivity.invalidate();
+		this.clearHistory();
 		this.markComponents();
 	}
 
+	/**
+	 * Translates the configuration by (dx, dy).
+	 */
+	translate(dx: number, dy: number): void {
+		this.transform(Transform.translation(dx, dy));
+	}
+
+	/**
+	 * Rotates the configuration around the origin by the given number of
+	 * quarter turns counter-clockwise.
+	 */
+	rotate(quarterTurns = 1): void {
+		this.transform(Transform.rotation(quarterTurns));
+	}
+
+	/**
+	 * Mirrors the configuration in the y-axis.
+	 */
+	mirror(): void {
+		this.transform(Transform.mirror());
+	}
+
+	/**
+	 * Translates the configuration such that its downmost row and leftmost
+	 * column are at y = 0 and x = 0, respectively. Returns the translation,
+	 * so that it can be undone.
+	 */
+	normalize(): Transform {
+		if (!this.cubes.length) {
+			return Transform.IDENTITY;
+		}
+		const [minX, minY, , ] = this.bounds();
+		const t = Transform.translation(-minX, -minY);
+		this.transform(t);
+		return t;
+	}
+
 	/**
 	 * Checks if the configuration is connected. If the skip parameter is
 	 * provided, that cube is ignored (considered as non-existing).
+	 *
+	 * Unless obstacles count toward connectivity, this uses the cut cubes
+	 * cached by Connectivity, so repeated calls between two moves are cheap.
 	 */
 	isConnected(skip?: [number, number]): boolean {
 		if (!this.cubes.length) {
 			return true;
 		}
 
+		if (this.obstaclesConnect && this.obstacles.length) {
+			return this.isConnectedViaObstacles(skip);
+		}
+
+		if (skip) {
+			return this.connectivity.isConnectedWithout(skip);
+		}
+		return this.connectivity.isConnected();
+	}
+
+	/**
+	 * As isConnected(), but always does a BFS over the cubes (ignoring
+	 * obstacles).
+	 */
+	isConnectedBFS(skip?: [number, number]): boolean {
+		if (!this.cubes.length) {
+			return true;
+		}
+
 		// do BFS from cube 0 to check if we can reach all cubes
 		let seen = Array(this.cubes.length).fill(false);
 		let seenCount = 0;
@@ -571,7 +982,7 @@ class World {
 
 		if (skip) {
 			// mark the skipped cube so we won't visit it again
-			const skipIndex = this.getCubeId(skip);
+			const skipIndex = this.getCubeIndex(skip);
 			if (skipIndex !== null) {
 				seen[skipIndex] = true;
 				seenCount++;
@@ -599,14 +1010,14 @@ class World {
 			seenCount++;
 
 			const neighbors = [
-				this.getCell([cube.p[0] - 1, cube.p[1]]),
-				this.getCell([cube.p[0] + 1, cube.p[1]]),
-				this.getCell([cube.p[0], cube.p[1] - 1]),
-				this.getCell([cube.p[0], cube.p[1] + 1])
+				this.getCubeIndex([cube.p[0] - 1, cube.p[1]]),
+				this.getCubeIndex([cube.p[0] + 1, cube.p[1]]),
+				this.getCubeIndex([cube.p[0], cube.p[1] - 1]),
+				this.getCubeIndex([cube.p[0], cube.p[1] + 1])
 			];
 			neighbors.forEach(function(c) {
-				if (c.cubeId) {
-					queue.push(c.cubeId);
+				if (c !== null) {
+					queue.push(c);
 				}
 			});
 		}
@@ -614,6 +1025,109 @@ class World {
 		return this.cubes.length === seenCount;
 	}
 
+	/**
+	 * As isConnected(), but also allows cubes to be connected through
+	 * obstacles.
+	 */
+	private isConnectedViaObstacles(skip?: [number, number]): boolean {
+		const skipIndex = skip ? this.getCubeIndex(skip) : null;
+		const start = this.cubes.find((c, i) => i !== skipIndex);
+		if (!start) {
+			return true;
+		}
+
+		// do BFS over cubes and obstacles
+		let seen = new Set<string>();
+		let seenCount = 0;
+		let queue: [number, number][] = [start.p];
+		while (queue.length !== 0) {
+			const [x, y] = queue.shift()!;
+			if (seen.has(x + "," + y)) {
+				continue;
+			}
+			seen.add(x + "," + y);
+			if (this.hasCube([x, y])) {
+				seenCount++;
+			}
+
+			const neighbors: [number, number][] =
+					[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+			for (const n of neighbors) {
+				if (this.isBlocked(n) && (skipIndex === null ||
+						this.getCubeIndex(n) !== skipIndex)) {
+					queue.push(n);
+				}
+			}
+		}
+
+		return seenCount === this.cubes.length - (skipIndex === null ? 0 : 1);
+	}
+
+	/**
+	 * Checks if the configuration would be connected after moving the cube
+	 * at the given source location to the given (empty) target location.
+	 *
+	 * If the source location is empty (because the cube has been taken out
+	 * temporarily, as in findMovePath()), this checks if the configuration
+	 * would be connected after putting a cube at the target location. This
+	 * does not change the configuration (no cube is actually added).
+	 */
+	isConnectedAfterMove(from: [number, number], to: [number, number]):
+			boolean {
+		if (!this.hasCube(from)) {
+			// a cube next to a connected configuration keeps it connected
+			if (this.getNeighbors(to).length > 0 && this.isConnected()) {
+				return true;
+			}
+			return this.isConnectedWith(to);
+		}
+		this.moveCubeUnmarked(from, to);
+		const connected = this.isConnected();
+		this.moveCubeUnmarked(to, from);
+		return connected;
+	}
+
+	/**
+	 * Checks if the configuration would be connected with an additional cube
+	 * at the given (empty) location, by a BFS over the grid from that
+	 * location.
+	 */
+	private isConnectedWith(p: [number, number]): boolean {
+		const viaObstacles = this.obstaclesConnect && this.obstacles.length > 0;
+		let seen = new Set<string>([p[0] + "," + p[1]]);
+		let seenCount = 0;
+		let queue: [number, number][] = [p];
+		while (queue.length !== 0) {
+			const [x, y] = queue.shift()!;
+			const neighbors: [number, number][] =
+					[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+			for (const n of neighbors) {
+				if (seen.has(n[0] + "," + n[1])) {
+					continue;
+				}
+				if (this.hasCube(n)) {
+					seenCount++;
+				} else if (!viaObstacles || !this.hasObstacle(n)) {
+					continue;
+				}
+				seen.add(n[0] + "," + n[1]);
+				queue.push(n);
+			}
+		}
+		return seenCount === this.cubes.length;
+	}
+
+	/**
+	 * Returns a hash of the configuration: the set of cells that contain a
+	 * cube (regardless of which cube is where, and ignoring obstacles). Equal
+	 * configurations have equal hashes, and different configurations have
+	 * different hashes with high probability. The hash is updated
+	 * incrementally, so this takes O(1) time.
+	 */
+	hash(): string {
+		return this.cells.hash();
+	}
+
 	/**
 	 * Returns the minimum and maximum x- and y-coordinates of cubes in the
 	 * configuration, as an array [minX, minY, maxX, maxY].
@@ -663,12 +1177,13 @@ class World {
 	 */
 	markComponents(): void {
 		const [components, chunkIds] = this.findComponents();
-		const stable = this.findCubeStability();
+		const cut = this.blockCutTree().cut;
 		for (let i = 0; i < this.cubes.length; i++) {
+			const stable = !cut[i];
 			if (components[i] === 2) {
-				this.cubes[i].setComponentStatus(stable[i] ? ComponentStatus.CHUNK_STABLE : ComponentStatus.CHUNK_CUT);
+				this.cubes[i].setComponentStatus(stable ? ComponentStatus.CHUNK_STABLE : ComponentStatus.CHUNK_CUT);
 			} else if (components[i] === 1) {
-				this.cubes[i].setComponentStatus(stable[i] ? ComponentStatus.LINK_STABLE : ComponentStatus.LINK_CUT);
+				this.cubes[i].setComponentStatus(stable ? ComponentStatus.LINK_STABLE : ComponentStatus.LINK_CUT);
 			} else if (components[i] === 3) {
 				this.cubes[i].setComponentStatus(ComponentStatus.CONNECTOR);
 			} else {
@@ -697,6 +1212,13 @@ class World {
 	 * the chunk ID of the chunk closer to the root is returned. Cubes that
 	 * are not in a chunk get chunk ID -1.
 	 *
+	 * The components are the blocks of the block-cut tree: chunks are the
+	 * 2-connected blocks and links are the blocks consisting of a single edge.
+	 * Only the blocks on the outside count as separate components; blocks
+	 * enclosed by a chunk (that is, in one of its holes) are part of that
+	 * chunk. Hence cubes that are not on the outside always get component
+	 * status 2 and chunk ID -1.
+	 *
 	 * If the configuration is disconneted, this returns -1 for both component
 	 * status and chunk IDs.
 	 */
@@ -710,56 +1232,38 @@ class World {
 			return [components, chunkIds];
 		}
 
-		let seen = Array(this.cubes.length).fill(false);
-		const outside = this.outsideCubes();
-		let stack = [];
-		let chunksSeen = 0;
-
-		// walk over the outside
-		for (let i = 0; i < outside.length; i++) {
-			const cube = outside[i];
-			const cubeId = this.getCubeId(cube.p)!;
-
-			// if we've not seen this cube, put it on the stack
-			// else mark its component and pop it
-			if (!seen[cubeId]) {
-				seen[cubeId] = true;
-				stack.push(cubeId);
-			} else if (stack.length >= 1 && stack[stack.length - 2] === cubeId) {
-				const cId = stack.pop()!;
-				if (components[cId] === -1) {
-					components[cId] = 1;
-				}
-				if (components[cubeId] === -1) {
-					components[cubeId] = 1;
-				}
-			} else {
-				// pop entire 2-component in one go
-				while (stack.length > 1 && stack[stack.length - 1] !== cubeId) {
-					const cId = stack.pop()!;
-					components[cId] = components[cId] !== -1 ? 3 : 2;
-					chunkIds[cId] = chunksSeen;
-				}
-				// mark attachment point as cross (except if stack is empty)
-				const cId = stack[stack.length - 1];
-				components[cId] = stack.length > 1 ? 3 : 2;
-				chunkIds[cId] = chunksSeen;
-				chunksSeen++;
-			}
+		let outside = Array(this.cubes.length).fill(false);
+		for (const cube of this.outsideCubes()) {
+			outside[this.getCubeIndex(cube.p)!] = true;
 		}
 
-		// if origin wasn't put in a component yet, it needs to be a
-		// 1-component
-		const originId = this.getCubeId(outside[0].p)!;
-		if (components[originId] === -1) {
-			components[originId] = 1;
+		// a block is on the outside if one of its cubes other than its
+		// attachment is; else it hangs into a hole (number the chunks on the
+		// outside in the order the block-cut tree found them)
+		const tree = this.blockCutTree();
+		let onOutside: boolean[] = [];
+		let chunkNumbers: number[] = [];
+		let chunksSeen = 0;
+		for (const block of tree.blocks) {
+			onOutside.push(block.cubes.some(
+					(c) => c !== block.attachment && outside[c]));
+			chunkNumbers.push(onOutside[onOutside.length - 1] && block.chunk ?
+					chunksSeen++ : -1);
 		}
 
-		// and all remaining cubes not in a component need to be on the inside
-		// of a 2-component
-		for (let i = 0; i < components.length; i++) {
-			if (components[i] === -1) {
+		for (let i = 0; i < this.cubes.length; i++) {
+			if (!outside[i]) {
 				components[i] = 2;
+				continue;
+			}
+			const blocks = tree.cubeBlocks[i].filter((b) => onOutside[b]);
+			const chunks = blocks.filter((b) => tree.blocks[b].chunk);
+			if (!chunks.length) {
+				components[i] = 1;
+			} else {
+				components[i] = blocks.length > 1 ? 3 : 2;
+				// the first chunk is the one closest to the root
+				chunkIds[i] = chunkNumbers[chunks[0]];
 			}
 		}
 
@@ -768,7 +1272,7 @@ class World {
 			if (components[i] === 1 &&
 					this.degree(this.cubes[i]) === 1) {
 				const neighbor = this.getOneNeighbor(this.cubes[i])!;
-				const neighborIndex = this.getCubeId(neighbor.p)!;
+				const neighborIndex = this.getCubeIndex(neighbor.p)!;
 				if (components[neighborIndex] === 3) {
 					components[i] = 2;
 					chunkIds[i] = chunkIds[neighborIndex];
@@ -782,13 +1286,13 @@ class World {
 					let shouldRemoveConnector = true;
 					for (let c of cs) {
 						if (c) {
-							if (components[this.getCubeId(c.p)!] === 1) {
+							if (components[this.getCubeIndex(c.p)!] === 1) {
 								shouldRemoveConnector = false;
 							}
 						}
 					}
 					if (shouldRemoveConnector) {
-						components[this.getCubeId(neighbor.p)!] = 2;
+						components[this.getCubeIndex(neighbor.p)!] = 2;
 					}
 				}
 			}
@@ -798,62 +1302,12 @@ class World {
 	}
 
 	/**
-	 * Determines which cubes in the configuration are stable.
-	 *
-	 * Returns a list of booleans for each cube: true if the corresponding cube
-	 * is stable; false if it is a cut cube.
+	 * Returns the block-cut tree of the configuration, rooted at the
+	 * downmost-leftmost cube. The tree is cached until the configuration
+	 * changes.
 	 */
-	findCubeStability(): boolean[] {
-		if (!this.cubes.length) {
-			return [];
-		}
-		let seen = Array(this.cubes.length).fill(false);
-		let parent: (number | null)[] = Array(this.cubes.length).fill(null);
-		let depth = Array(this.cubes.length).fill(-1);
-		let low = Array(this.cubes.length).fill(-1);
-		let stable = Array(this.cubes.length).fill(true);
-		this.findCubeStabilityRecursive(0, 0, seen, parent, depth, low, stable);
-		return stable;
-	}
-
-	private findCubeStabilityRecursive(i: number, d: number,
-			seen: boolean[], parent: (number | null)[],
-			depth: number[], low: number[],
-			stable: boolean[]): void {
-
-		seen[i] = true;
-		depth[i] = d;
-		low[i] = d;
-		let cube = this.cubes[i];
-
-		const neighbors = [
-			this.getCell([cube.p[0] - 1, cube.p[1]]),
-			this.getCell([cube.p[0] + 1, cube.p[1]]),
-			this.getCell([cube.p[0], cube.p[1] - 1]),
-			this.getCell([cube.p[0], cube.p[1] + 1])
-		];
-		const self = this;
-		let cutCube = false;
-		let childCount = 0;
-		neighbors.forEach(function(c) {
-			if (c.cubeId !== null && !seen[c.cubeId]) {
-				parent[c.cubeId] = i;
-				self.findCubeStabilityRecursive(c.cubeId, d + 1,
-						seen, parent, depth, low, stable);
-				childCount++;
-				if (low[c.cubeId] >= depth[i]) {
-					cutCube = true;
-				}
-				low[i] = Math.min(low[i], low[c.cubeId]);
-			} else if (c.cubeId !== null && c.cubeId != parent[i]) {
-				low[i] = Math.min(low[i], depth[c.cubeId]);
-			}
-		});
-		if (parent[i] === null) {
-			stable[i] = childCount <= 1;
-		} else {
-			stable[i] = !cutCube;
-		}
+	blockCutTree(): BlockCutTree {
+		return this.connectivity.blockCutTree();
 	}
 
 	/**
@@ -926,42 +1380,7 @@ class World {
 	 * Given a cube, determines the number of cubes in its descendant(s).
 	 */
 	bridgeCapacity(b: Cube): number {
-
-		// do a BFS from the root, but ignore b
-		let seen = Array(this.cubes.length).fill(false);
-		const bId = this.getCubeId(b.p)!;
-		seen[bId] = true;
-		let cubeCount = 1;
-
-		const originId = this.getCubeId(this.downmostLeftmost()!.p);
-		let queue = [originId];
-
-		while (queue.length !== 0) {
-			const cubeId = queue.shift()!;
-			if (seen[cubeId]) {
-				continue;
-			}
-
-			const cube = this.cubes[cubeId];
-			seen[cubeId] = true;
-			if (bId !== cubeId) {
-				cubeCount++;
-			}
-
-			const neighbors = [
-				this.getCell([cube.p[0] - 1, cube.p[1]]),
-				this.getCell([cube.p[0] + 1, cube.p[1]]),
-				this.getCell([cube.p[0], cube.p[1] - 1]),
-				this.getCell([cube.p[0], cube.p[1] + 1])
-			];
-			neighbors.forEach(function(c) {
-				if (c.cubeId !== null) {
-					queue.push(c.cubeId);
-				}
-			});
-		}
-
-		return this.cubes.length - cubeCount;
+		return this.blockCutTree().descendants[this.getCubeIndex(b.p)!];
 	}
 
 	/**
@@ -986,14 +1405,16 @@ class World {
 	}
 
 	/**
-	 * Generates a JSON string from this world.
+	 * Generates a JSON string from this world. The cubes are stored at their
+	 * reset positions, or at their current positions if `current` is set.
 	 */
-	serialize(): string {
+	serialize(current = false): string {
 		let cubes: any = [];
 		this.cubes.forEach((cube) => {
+			const p = current ? cube.p : cube.resetPosition;
 			cubes.push({
-				'x': cube.resetPosition[0],
-				'y': cube.resetPosition[1],
+				'x': p[0],
+				'y': p[1],
 				'color': [cube.color.r, cube.color.g, cube.color.b]
 			});
 		});
@@ -1001,6 +1422,15 @@ class World {
 			'_version': 1,
 			'cubes': cubes
 		};
+		if (this.obstacles.length) {
+			obj['obstacles'] = this.obstacles.map((p) => ({'x': p[0], 'y': p[1]}));
+		}
+		if (this.obstaclesConnect) {
+			obj['obstaclesConnect'] = true;
+		}
+		if (this.model.name !== 'sliding') {
+			obj['moveModel'] = this.model.name;
+		}
 		return JSON.stringify(obj);
 	}
 
@@ -1015,6 +1445,15 @@ class World {
 			throw new Error('Save file with incorrect version');
 		}
 
+		if (obj.hasOwnProperty('obstacles')) {
+			let obstacles: any[] = obj['obstacles'];
+			obstacles.forEach((obstacle: any) => {
+				this.addObstacle([obstacle['x'], obstacle['y']]);
+			});
+		}
+		this.obstaclesConnect = !!obj['obstaclesConnect'];
+		this.model = findMoveModel(obj['moveModel'] || 'sliding');
+
 		let cubes: any[] = obj['cubes'];
 		cubes.forEach((cube: any) => {
 			let color = Color.BLUE;
@@ -1035,6 +1474,19 @@ class World {
 
 		let elements = '';
 
+		// obstacles
+		this.obstacles.forEach((p) => {
+			let x = 8 * p[0];
+			let y = 8 * p[1];
+			elements += `<path stroke="black" fill="Gray 0.5" pen="heavier" cap="1" join="1">
+${x} ${y + 8} m
+${x} ${y} l
+${x + 8} ${y} l
+${x + 8} ${y + 8} l
+h
+</path>\n`;
+		});
+
 		// shadows
 		this.cubes.forEach((cube) => {
 			let x = 8 * cube.p[0];
@@ -0,0 +1,138 @@
+import {expect} from 'chai';
+
+import {World} from '../src/world';
+import {Color} from '../src/cube';
+import {Random, growthModels, InstanceGenerator} from '../src/generator';
+import {worldFromPicture} from './helpers';
+
+/**
+ * Returns for each cube whether it is a cut cube, computed by the recursive
+ * depth-first search that World used before the block-cut tree (which needs a
+ * larger stack for large instances).
+ */
+function recursiveCutCubes(world: World): boolean[] {
+	const n = world.cubes.length;
+	let parent: (number | null)[] = Array(n).fill(null);
+	let depth: number[] = Array(n).fill(-1);
+	let low: number[] = Array(n).fill(-1);
+	let stable: boolean[] = Array(n).fill(true);
+
+	const visit = (i: number, d: number): void => {
+		depth[i] = d;
+		low[i] = d;
+		const [x, y] = world.cubes[i].p;
+		let cutCube = false;
+		let childCount = 0;
+		for (const c of [world.getCubeIndex([x - 1, y]), world.getCubeIndex([x + 1, y]),
+				world.getCubeIndex([x, y - 1]), world.getCubeIndex([x, y + 1])]) {
+			if (c !== null && depth[c] === -1) {
+				parent[c] = i;
+				visit(c, d + 1);
+				childCount++;
+				if (low[c] >= depth[i]) {
+					cutCube = true;
+				}
+				low[i] = Math.min(low[i], low[c]);
+			} else if (c !== null && c !== parent[i]) {
+				low[i] = Math.min(low[i], depth[c]);
+			}
+		}
+		stable[i] = parent[i] === null ? childCount <= 1 : !cutCube;
+	};
+	visit(0, 0);
+	return stable.map((s) => !s);
+}
+
+/**
+ * Returns a size × size configuration consisting of a single path that snakes
+ * through the rows, so that a depth-first search gets as deep as possible.
+ */
+function snake(size: number): World {
+	let world = new World();
+	for (let y = 0; y < size; y += 2) {
+		for (let x = 0; x < size; x++) {
+			world.addCubeUnmarked([x, y], Color.GRAY);
+		}
+		if (y + 1 < size) {
+			world.addCubeUnmarked([(y / 2) % 2 === 0 ? size - 1 : 0, y + 1],
+					Color.GRAY);
+		}
+	}
+	return world;
+}
+
+describe('BlockCutTree', () => {
+
+	it('finds the same cut cubes as the recursive search', () => {
+		for (const model of growthModels) {
+			for (let seed = 0; seed < 5; seed++) {
+				const world = new InstanceGenerator(15, 15, new Random(seed))
+					.generate(model, 40);
+				expect(world.blockCutTree().cut, `${model} seed ${seed}`)
+					.to.deep.equal(recursiveCutCubes(world));
+			}
+		}
+	});
+
+	it('counts the cubes disconnected from the root by removing a cube', () => {
+		const world = new InstanceGenerator(12, 12, new Random(3))
+			.generate('tree', 50);
+		const tree = world.blockCutTree();
+		world.cubes.forEach((cube, i) => {
+			if (i === tree.root) {
+				return;
+			}
+			// count the cubes reachable from the root without cube i
+			let seen = new Set<number>([tree.root, i]);
+			let queue = [tree.root];
+			while (queue.length) {
+				const [x, y] = world.cubes[queue.pop()!].p;
+				for (const c of [world.getCubeIndex([x - 1, y]),
+						world.getCubeIndex([x + 1, y]), world.getCubeIndex([x, y - 1]),
+						world.getCubeIndex([x, y + 1])]) {
+					if (c !== null && !seen.has(c)) {
+						seen.add(c);
+						queue.push(c);
+					}
+				}
+			}
+			expect(tree.descendants[i]).to.equal(world.cubes.length - seen.size);
+		});
+	});
+
+	it('splits a configuration into chunks and links', () => {
+		const world = worldFromPicture([
+			'##   ',
+			'#####',
+			'   ##'
+		]);
+		const tree = world.blockCutTree();
+		const blocks = tree.blocks
+			.map((block) => [block.chunk, block.cubes.length])
+			.sort();
+		expect(blocks).to.deep.equal(
+				[[false, 2], [false, 2], [true, 4], [true, 4]]);
+		expect(tree.cut.filter((c) => c).length).to.equal(3);
+	});
+
+	describe('on 300x300 instances at the default stack size', function () {
+		this.timeout(120000);
+
+		it('handles a path through all rows', () => {
+			const world = snake(300);
+			world.markComponents();
+			const tree = world.blockCutTree();
+			// all cubes except the two ends of the path are cut cubes
+			expect(tree.cut.filter((c) => c).length)
+				.to.equal(world.cubes.length - 2);
+		});
+
+		it('handles a random instance', () => {
+			const world = new InstanceGenerator(300, 300, new Random(0))
+				.generate('eden', 50);
+			world.markComponents();
+			expect(world.blockCutTree().descendants[world.blockCutTree().root])
+				.to.equal(world.cubes.length - 1);
+		});
+	});
+});
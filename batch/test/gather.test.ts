@@ -0,0 +1,39 @@
+import {expect} from 'chai';
+
+import {World} from '../src/world';
+import {Random, growthModels, InstanceGenerator} from '../src/generator';
+import {createPhases, runPhases} from '../src/common';
+
+/**
+ * Runs Gather&Compact on the world, and returns its total number of moves.
+ */
+function gatherAndCompact(world: World): number {
+	return runPhases(world, createPhases('gc', world, {}))
+		.reduce((a, b) => a + b, 0);
+}
+
+describe('GatherAlgorithm', () => {
+
+	it('compacts small light configurations', () => {
+		for (const model of growthModels) {
+			for (const size of [4, 5, 6]) {
+				for (let seed = 0; seed < 5; seed++) {
+					const world = new InstanceGenerator(size, size,
+							new Random(seed)).generate(model, 30);
+					expect(world.cubes.length).to.be.below(world.bridgeLimit());
+					gatherAndCompact(world);
+					expect(world.isXYMonotone(),
+							`${model} ${size}x${size} seed ${seed}`).to.be.true;
+				}
+			}
+		}
+	});
+
+	it('gathers light configurations as usual while it makes progress', () => {
+		// building the xy-monotone configuration directly takes 33 moves on
+		// this instance, while Gather&Compact takes 16
+		const world = new InstanceGenerator(5, 5, new Random(0))
+			.generate('eden', 40);
+		expect(gatherAndCompact(world)).to.be.at.most(16);
+	});
+});
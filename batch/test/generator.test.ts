@@ -0,0 +1,50 @@
+import {expect} from 'chai';
+
+import {Random, growthModels, InstanceGenerator} from '../src/generator';
+import {occupiedCells} from './helpers';
+
+describe('InstanceGenerator', () => {
+
+	it('generates connected instances of the requested size', () => {
+		for (const model of growthModels) {
+			const world = new InstanceGenerator(10, 8, new Random(1))
+				.generate(model, 40);
+			expect(world.isConnected(), model).to.be.true;
+			for (const cube of world.cubes) {
+				expect(cube.p[0]).to.be.within(0, 9);
+				expect(cube.p[1]).to.be.within(0, 7);
+			}
+			if (model === 'shrink' || model === 'eden' || model === 'walk') {
+				expect(world.cubes.length, model).to.equal(32);
+			}
+		}
+	});
+
+	it('generates the same instance for the same seed', () => {
+		const generate = (seed: number) => occupiedCells(
+				new InstanceGenerator(10, 10, new Random(seed)).generate('eden', 50));
+		expect(generate(3)).to.deep.equal(generate(3));
+		expect(generate(3)).not.to.deep.equal(generate(4));
+	});
+
+	it('fills the grid at 100 percent', () => {
+		const world = new InstanceGenerator(4, 3, new Random(0))
+			.generate('walk', 100);
+		expect(world.cubes.length).to.equal(12);
+	});
+
+	it('rejects invalid grid sizes', () => {
+		for (const [width, height] of [[0, 5], [5, -1], [NaN, 5], [2.5, 5]]) {
+			expect(() => new InstanceGenerator(width, height, new Random(0)))
+				.to.throw(/Invalid grid size/);
+		}
+	});
+
+	it('rejects fill percentages outside (0, 100]', () => {
+		const generator = new InstanceGenerator(5, 5, new Random(0));
+		for (const percentage of [0, -10, 101, NaN]) {
+			expect(() => generator.generate('eden', percentage))
+				.to.throw(/Invalid fill percentage/);
+		}
+	});
+});
@@ -0,0 +1,133 @@
+import {expect} from 'chai';
+
+import {World} from '../src/world';
+import {Transform, symmetries} from '../src/geometry';
+import {Random, InstanceGenerator} from '../src/generator';
+import {createPhases, runPhases} from '../src/common';
+import {Watchdog} from '../src/watchdog';
+import {findBestSymmetry, createSymmetricPhases} from '../src/symmetric';
+import {worldFromPicture, occupiedCells} from './helpers';
+
+/**
+ * Returns the obstacles of the world, as sorted `x,y` strings.
+ */
+function obstacleCells(world: World): string[] {
+	return world.obstacles.map((p) => `${p[0]},${p[1]}`).sort();
+}
+
+describe('Transform', () => {
+
+	const points: [number, number][] = [[0, 0], [1, 2], [-3, 5], [7, -4]];
+
+	it('is undone by its inverse', () => {
+		for (const {transform} of symmetries()) {
+			const t = transform.then(Transform.translation(3, -2));
+			for (const p of points) {
+				expect(t.inverse().apply(t.apply(p))).to.deep.equal(p);
+				expect(t.then(t.inverse()).apply(p)).to.deep.equal(p);
+			}
+		}
+	});
+
+	it('gives the identity after four rotations or two mirrorings', () => {
+		const rotation = Transform.rotation(1);
+		const fourTimes = rotation.then(rotation).then(rotation).then(rotation);
+		const twice = Transform.mirror().then(Transform.mirror());
+		for (const p of points) {
+			expect(fourTimes.apply(p)).to.deep.equal(p);
+			expect(twice.apply(p)).to.deep.equal(p);
+			expect(Transform.rotation(-1).apply(p))
+				.to.deep.equal(Transform.rotation(3).apply(p));
+		}
+	});
+
+	it('maps MSDP coordinates like the original conversion', () => {
+		// the original conversion, for configurations with the bottom-left
+		// corner of their bounding box at the origin
+		const maxX = 6;
+		const frame = Transform.fromMsdp([0, 0, maxX, 4]);
+		for (const c of points) {
+			expect(frame.apply(c)).to.deep.equal([c[1] - 1, maxX - c[0] + 1]);
+		}
+	});
+});
+
+describe('symmetries', () => {
+
+	it('are 8 different symmetries, starting with the identity', () => {
+		const all = symmetries();
+		expect(all.length).to.equal(8);
+		expect(all[0].name).to.equal('identity');
+		const images = all.map((s) => s.transform.apply([1, 2]).join(','));
+		expect(new Set(images).size).to.equal(8);
+	});
+
+	it('round-trip a configuration with obstacles', () => {
+		const world = worldFromPicture([
+			'##  o',
+			' ###',
+			'o  #'
+		]);
+		const cells = occupiedCells(world);
+		const obstacles = obstacleCells(world);
+		const hash = world.hash();
+		for (const {name, transform} of symmetries()) {
+			world.transform(transform);
+			world.transform(transform.inverse());
+			expect(occupiedCells(world), name).to.deep.equal(cells);
+			expect(obstacleCells(world), name).to.deep.equal(obstacles);
+			expect(world.hash(), name).to.equal(hash);
+		}
+	});
+
+	it('keep the reset positions along with the positions', () => {
+		const world = worldFromPicture(['###']);
+		world.rotate();
+		world.mirror();
+		world.reset();
+		expect(occupiedCells(world)).to.deep.equal(['0,0', '0,1', '0,2']);
+	});
+});
+
+describe('World.normalize', () => {
+
+	it('moves the bounding box to the origin and can be undone', () => {
+		const world = worldFromPicture(['##', ' #']);
+		world.translate(-4, 7);
+		const cells = occupiedCells(world);
+		const t = world.normalize();
+		const [minX, minY, , ] = world.bounds();
+		expect([minX, minY]).to.deep.equal([0, 0]);
+		world.transform(t.inverse());
+		expect(occupiedCells(world)).to.deep.equal(cells);
+	});
+});
+
+describe('findBestSymmetry', () => {
+
+	it('returns a run that replays in the original frame', () => {
+		const createWatchdog = (world: World) => new Watchdog(world);
+		for (let seed = 0; seed < 3; seed++) {
+			const world = new InstanceGenerator(6, 6, new Random(seed))
+				.generate('eden', 50);
+			const best = findBestSymmetry('gc', world, {}, createWatchdog);
+
+			let plain = new World();
+			plain.deserialize(world.serialize());
+			const plainTotal = runPhases(plain, createPhases('gc', plain, {}))
+				.reduce((a, b) => a + b, 0);
+			expect(best.total).to.be.at.most(plainTotal);
+
+			const [phases, symmetry] = createSymmetricPhases('gc', world, {},
+					createWatchdog);
+			expect(symmetry.name).to.equal(best.symmetry.name);
+			const total = runPhases(world, phases).reduce((a, b) => a + b, 0);
+			expect(total).to.equal(best.total);
+
+			// compacting toward the bottom-left in the transformed frame
+			// makes the result xy-monotone in that frame
+			world.transform(symmetry.transform);
+			expect(world.isXYMonotone(), `seed ${seed}`).to.be.true;
+		}
+	});
+});
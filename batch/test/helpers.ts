@@ -0,0 +1,53 @@
+import {Algorithm, World} from '../src/world';
+import {Color} from '../src/cube';
+import {runPhases} from '../src/common';
+
+// functionality shared by the tests
+
+/**
+ * Creates a world from a picture, given as its rows from top to bottom, in
+ * which `#` is a square, `o` is an obstacle and any other character is an
+ * empty cell. The bottom-left cell of the picture is (0, 0).
+ */
+function worldFromPicture(rows: string[]): World {
+	let world = new World();
+	rows.forEach((row, i) => {
+		const y = rows.length - 1 - i;
+		for (let x = 0; x < row.length; x++) {
+			if (row[x] === 'o') {
+				world.addObstacle([x, y]);
+			}
+		}
+	});
+	rows.forEach((row, i) => {
+		const y = rows.length - 1 - i;
+		for (let x = 0; x < row.length; x++) {
+			if (row[x] === '#') {
+				world.addCube([x, y], Color.BLUE);
+			}
+		}
+	});
+	return world;
+}
+
+/**
+ * Returns the cells occupied by squares, as sorted `x,y` strings, so that
+ * configurations can be compared with deepEqual.
+ */
+function occupiedCells(world: World): string[] {
+	return world.cubes.map((cube) => `${cube.p[0]},${cube.p[1]}`).sort();
+}
+
+/**
+ * Runs an algorithm on a world to completion, checking that every move is
+ * valid, and returns the number of moves it made.
+ */
+function runAlgorithm(world: World, algorithm: Algorithm): number {
+	return runPhases(world, [{
+		name: 'test',
+		algorithm: algorithm,
+		marked: true
+	}])[0];
+}
+
+export {worldFromPicture, occupiedCells, runAlgorithm};
@@ -0,0 +1,117 @@
+import {expect} from 'chai';
+
+import {World} from '../src/world';
+import {findMoveModel} from '../src/move-model';
+import {Verifier} from '../src/verify';
+import {LowerBound} from '../src/lower-bound';
+import {worldFromPicture} from './helpers';
+
+/**
+ * Returns the reason why the move from `from` to `to` is invalid in the given
+ * move model, or null if it is valid.
+ */
+function problem(world: World, model: string, from: [number, number],
+		to: [number, number]): string | null {
+	world.model = findMoveModel(model);
+	return new Verifier(world).findMove(from, to)[1];
+}
+
+describe('PivotingModel', () => {
+
+	describe('rotations into a neighboring cell', () => {
+
+		it('are valid if the cells on the other side are empty', () => {
+			const world = worldFromPicture([
+				'##',
+				'# '
+			]);
+			expect(problem(world, 'pivoting', [0, 0], [1, 0])).to.be.null;
+		});
+
+		it('are blocked by a square on the other side', () => {
+			// the square at (0, 1) rotates around the corner it shares with
+			// (0, 2), sweeping over (0, 0) and (1, 0)
+			const world = worldFromPicture([
+				'##',
+				'# ',
+				' o'
+			]);
+			expect(problem(world, 'sliding', [0, 1], [1, 1])).to.be.null;
+			expect(problem(world, 'pivoting', [0, 1], [1, 1]))
+				.to.match(/^the rotation is blocked by the cell/);
+		});
+
+		it('need a square or obstacle to rotate around', () => {
+			const world = worldFromPicture(['##']);
+			expect(problem(world, 'pivoting', [1, 0], [2, 0]))
+				.to.equal('there is no square or obstacle to rotate around ' +
+						'(missing pivot)');
+		});
+
+		it('need a neighbor after the move', () => {
+			const world = worldFromPicture(['##']);
+			expect(problem(world, 'pivoting', [1, 0], [1, 1]))
+				.to.equal('the square would not be next to another square or ' +
+						'obstacle after the move');
+		});
+	});
+
+	describe('corner moves', () => {
+
+		it('are valid if all swept cells are empty', () => {
+			const world = worldFromPicture(['##']);
+			expect(problem(world, 'pivoting', [0, 0], [1, 1])).to.be.null;
+		});
+
+		it('are blocked by a cell two cells away', () => {
+			// the second rotation of corner move NE from (0, 0) sweeps over
+			// (0, 2)
+			const world = worldFromPicture([
+				'o ',
+				'  ',
+				'##'
+			]);
+			expect(problem(world, 'sliding', [0, 0], [1, 1])).to.be.null;
+			expect(problem(world, 'pivoting', [0, 0], [1, 1]))
+				.to.contain('the rotation is blocked by the cell (0, 2)');
+		});
+
+		it('are blocked by a cell behind the square', () => {
+			// the first rotation of corner move NE from (1, 0) sweeps over
+			// (0, 0) and (0, 1)
+			const world = worldFromPicture(['o##']);
+			expect(problem(world, 'sliding', [1, 0], [2, 1])).to.be.null;
+			expect(problem(world, 'pivoting', [1, 0], [2, 1]))
+				.to.contain('the rotation is blocked by the cell (0, 0)');
+		});
+
+		it('are blocked by the cell in the first direction', () => {
+			const world = worldFromPicture([
+				'# ',
+				'##'
+			]);
+			expect(problem(world, 'pivoting', [0, 0], [1, 1]))
+				.to.contain('corner move NE is blocked by the cell in ' +
+						'direction N');
+		});
+	});
+});
+
+describe('LowerBound', () => {
+
+	it('only counts misplaced squares in the teleport model', () => {
+		// teleporting the top square to (2, 0) takes a single move, although
+		// it is two columns away
+		const world = worldFromPicture([
+			'# ',
+			'##'
+		]);
+		const target: [number, number][] = [[0, 0], [1, 0], [2, 0]];
+		expect(new LowerBound(world).target(target)).to.equal(2);
+		expect(new LowerBound(world).monotone()).to.equal(0);
+
+		world.model = findMoveModel('teleport');
+		expect(new LowerBound(world).target(target)).to.equal(1);
+		expect(new LowerBound(world).monotone()).to.be.null;
+	});
+});
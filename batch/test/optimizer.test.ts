@@ -0,0 +1,81 @@
+import {expect} from 'chai';
+
+import {World, Move} from '../src/world';
+import {MoveStep, Verifier} from '../src/verify';
+import {Random, GrowthModel, InstanceGenerator} from '../src/generator';
+import {createPhases, runPhases, optimizeRun} from '../src/common';
+import {worldFromPicture, occupiedCells} from './helpers';
+
+/**
+ * Returns the moves as [from, to] pairs.
+ */
+function toSteps(moves: Move[]): MoveStep[] {
+	return moves.map((move): MoveStep =>
+			[move.sourcePosition(), move.targetPosition()]);
+}
+
+/**
+ * Executes the given moves on a copy of the world (which has to be valid),
+ * and returns them as Move objects.
+ */
+function toMoves(world: World, steps: MoveStep[]): Move[] {
+	let copy = new World();
+	copy.deserialize(world.serialize());
+	expect(new Verifier(copy).verify(steps).invalidMove).to.be.null;
+	return copy.getHistory();
+}
+
+/**
+ * Checks that the optimized moves are valid on the given instance, and that
+ * they lead to the given cells. Returns the number of optimized moves.
+ */
+function checkOptimized(json: string, moves: Move[], counts: number[],
+		cells: string[]): number {
+	const [optimized, optimizedCounts, ] = optimizeRun(json, moves,
+			counts.map((count, i) => `phase ${i}`), counts);
+	expect(optimizedCounts.reduce((a, b) => a + b, 0))
+		.to.equal(optimized.length);
+	optimizedCounts.forEach((count, i) => {
+		expect(count).to.be.at.most(counts[i]);
+	});
+
+	let world = new World();
+	world.deserialize(json);
+	const result = new Verifier(world).verify(toSteps(optimized));
+	expect(result.reason).to.be.null;
+	expect(occupiedCells(world)).to.deep.equal(cells);
+	return optimized.length;
+}
+
+describe('MoveOptimizer', () => {
+
+	it('drops a square that is moved and then moved back', () => {
+		const world = worldFromPicture(['###']);
+		const moves = toMoves(world, [[[2, 0], [1, 1]], [[1, 1], [2, 0]]]);
+		expect(checkOptimized(world.serialize(), moves, [2],
+				occupiedCells(world))).to.equal(0);
+	});
+
+	it('shortens a detour', () => {
+		const world = worldFromPicture(['####']);
+		const moves = toMoves(world,
+				[[[3, 0], [2, 1]], [[2, 1], [1, 1]], [[1, 1], [2, 1]]]);
+		expect(checkOptimized(world.serialize(), moves, [3],
+				['0,0', '1,0', '2,0', '2,1'])).to.equal(1);
+	});
+
+	it('keeps Gather&Compact runs valid without making them longer', () => {
+		for (const model of ['eden', 'percolation', 'walk'] as GrowthModel[]) {
+			for (let seed = 0; seed < 3; seed++) {
+				const world = new InstanceGenerator(10, 10, new Random(seed))
+					.generate(model, 30);
+				const json = world.serialize();
+				const counts = runPhases(world, createPhases('gc', world, {}));
+				const total = counts.reduce((a, b) => a + b, 0);
+				expect(checkOptimized(json, world.getHistory(), counts,
+						occupiedCells(world)), `${model} seed ${seed}`)
+					.to.be.at.most(total);
+			}
+		}
+	});
+});
@@ -0,0 +1,123 @@
+import {expect} from 'chai';
+
+import {Move, MoveDirection} from '../src/world';
+import {findMoveModel} from '../src/move-model';
+import {ReconfigureAlgorithm} from '../src/algorithms/reconfigure';
+import {worldFromPicture, occupiedCells, runAlgorithm} from './helpers';
+
+describe('Move', () => {
+
+	const world = worldFromPicture([
+		'###',
+		'# #',
+		'###'
+	]);
+
+	it('has an inverse that moves back to the source', () => {
+		for (const direction of Object.keys(MoveDirection)) {
+			if (direction === 'T') {
+				continue;
+			}
+			const move = new Move(world, [1, 1], <MoveDirection> direction);
+			const inverse = move.inverse();
+			expect(inverse.sourcePosition()).to.deep.equal(move.targetPosition());
+			expect(inverse.targetPosition()).to.deep.equal(move.sourcePosition());
+			expect(inverse.inverse().direction).to.equal(move.direction);
+		}
+	});
+
+	it('inverts a corner move around the same corner', () => {
+		expect(new Move(world, [0, 0], MoveDirection.NW).inverse().direction)
+			.to.equal(MoveDirection.ES);
+		expect(new Move(world, [0, 0], MoveDirection.EN).inverse().direction)
+			.to.equal(MoveDirection.SW);
+	});
+
+	it('inverts a teleport by swapping source and target', () => {
+		const inverse = new Move(world, [0, 0], MoveDirection.T, [5, 3])
+			.inverse();
+		expect(inverse.sourcePosition()).to.deep.equal([5, 3]);
+		expect(inverse.targetPosition()).to.deep.equal([0, 0]);
+	});
+
+	it('is undone by executing its inverse', () => {
+		let world = worldFromPicture([
+			'##',
+			'# '
+		]);
+		const before = occupiedCells(world);
+		const move = new Move(world, [1, 1], MoveDirection.S);
+		expect(move.isValid()).to.be.true;
+		move.execute();
+		expect(move.inverse().isValid()).to.be.true;
+		move.inverse().execute();
+		expect(occupiedCells(world)).to.deep.equal(before);
+	});
+});
+
+describe('ReconfigureAlgorithm', () => {
+
+	const start = [
+		'#    ',
+		'###  ',
+		'  ###',
+		'    #'
+	];
+	const target = [
+		'  #  ',
+		'  #  ',
+		'#####',
+		'  #  '
+	];
+
+	it('reconfigures the start into the target configuration', () => {
+		let world = worldFromPicture(start);
+		const targetWorld = worldFromPicture(target);
+		runAlgorithm(world, new ReconfigureAlgorithm(world,
+				targetWorld.serialize()).execute());
+		expect(occupiedCells(world)).to.deep.equal(occupiedCells(targetWorld));
+	});
+
+	it('returns to the start when its moves are undone', () => {
+		let world = worldFromPicture(start);
+		runAlgorithm(world, new ReconfigureAlgorithm(world,
+				worldFromPicture(target).serialize()).execute());
+		world.seek(0);
+		expect(occupiedCells(world))
+			.to.deep.equal(occupiedCells(worldFromPicture(start)));
+	});
+
+	it('reconfigures the target back into the start configuration', () => {
+		let world = worldFromPicture(target);
+		const startWorld = worldFromPicture(start);
+		runAlgorithm(world, new ReconfigureAlgorithm(world,
+				startWorld.serialize()).execute());
+		expect(occupiedCells(world)).to.deep.equal(occupiedCells(startWorld));
+	});
+
+	it('reconfigures in the teleport model', () => {
+		// the algorithms are designed for the sliding model, so take
+		// xy-monotone configurations, which only need canonicalization (whose
+		// move paths consist of teleports)
+		const monotoneStart = ['#   ', '##  ', '### '];
+		const monotoneTarget = ['#    ', '#####'];
+		let world = worldFromPicture(monotoneStart);
+		world.model = findMoveModel('teleport');
+		const targetWorld = worldFromPicture(monotoneTarget);
+		runAlgorithm(world, new ReconfigureAlgorithm(world,
+				targetWorld.serialize()).execute());
+		expect(occupiedCells(world)).to.deep.equal(occupiedCells(targetWorld));
+		expect(world.getHistory().some(
+				(move) => move.direction === MoveDirection.T)).to.be.true;
+		world.seek(0);
+		expect(occupiedCells(world))
+			.to.deep.equal(occupiedCells(worldFromPicture(monotoneStart)));
+	});
+
+	it('rejects a target with a different number of squares', () => {
+		let world = worldFromPicture(start);
+		const other = worldFromPicture(['###']);
+		expect(() => runAlgorithm(world, new ReconfigureAlgorithm(world,
+				other.serialize()).execute())).to.throw(/Cannot reconfigure/);
+	});
+});
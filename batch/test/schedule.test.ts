@@ -0,0 +1,93 @@
+import {expect} from 'chai';
+
+import {World} from '../src/world';
+import {MoveStep, Verifier} from '../src/verify';
+import {Scheduler} from '../src/schedule';
+import {Random, GrowthModel, InstanceGenerator} from '../src/generator';
+import {createPhases, runPhases} from '../src/common';
+import {worldFromPicture, occupiedCells} from './helpers';
+
+/**
+ * Returns the given moves in a random order.
+ */
+function shuffle(moves: MoveStep[], random: Random): MoveStep[] {
+	let result = moves.slice();
+	for (let i = result.length - 1; i > 0; i--) {
+		const j = random.nextInt(i + 1);
+		[result[i], result[j]] = [result[j], result[i]];
+	}
+	return result;
+}
+
+/**
+ * Schedules the moves on the given instance, and checks that every round is
+ * valid in several orders (forward, backward and shuffled) and that the
+ * rounds lead to the given cells. Returns the number of rounds.
+ */
+function checkSchedule(json: string, moves: MoveStep[], cells: string[]):
+		number {
+	let start = new World();
+	start.deserialize(json);
+	const indices = new Scheduler(start).schedule(moves);
+	expect(([] as number[]).concat(...indices).sort((a, b) => a - b))
+		.to.deep.equal(moves.map((move, i) => i));
+
+	let world = new World();
+	world.deserialize(json);
+	const verifier = new Verifier(world);
+	const random = new Random(0);
+	for (const round of indices) {
+		const steps = round.map((i) => moves[i]);
+		let orders = [steps.slice().reverse()];
+		for (let k = 0; k < 3; k++) {
+			orders.push(shuffle(steps, random));
+		}
+		for (const order of orders) {
+			const step = world.getHistoryStep();
+			expect(verifier.verify(order).reason).to.be.null;
+			world.seek(step);
+		}
+		expect(verifier.verify(steps).reason).to.be.null;
+	}
+	expect(occupiedCells(world)).to.deep.equal(cells);
+	return indices.length;
+}
+
+describe('Scheduler', () => {
+
+	it('puts moves far apart in one round', () => {
+		const world = worldFromPicture(['########']);
+		const moves: MoveStep[] = [[[0, 0], [1, 1]], [[7, 0], [6, 1]]];
+		expect(checkSchedule(world.serialize(), moves,
+				['1,0', '1,1', '2,0', '3,0', '4,0', '5,0', '6,0', '6,1']))
+			.to.equal(1);
+	});
+
+	it('keeps the moves of a square in order', () => {
+		const world = worldFromPicture(['####']);
+		const moves: MoveStep[] = [[[3, 0], [2, 1]], [[2, 1], [1, 1]]];
+		expect(checkSchedule(world.serialize(), moves,
+				['0,0', '1,0', '1,1', '2,0'])).to.equal(2);
+	});
+
+	it('packs Gather&Compact runs into rounds valid in any order', () => {
+		let totalMoves = 0;
+		let totalRounds = 0;
+		for (const model of ['eden', 'percolation', 'tree'] as GrowthModel[]) {
+			for (let seed = 0; seed < 3; seed++) {
+				const world = new InstanceGenerator(10, 10, new Random(seed))
+					.generate(model, 30);
+				const json = world.serialize();
+				runPhases(world, createPhases('gc', world, {}));
+				const moves = world.getHistory().map((move): MoveStep =>
+						[move.sourcePosition(), move.targetPosition()]);
+				const rounds = checkSchedule(json, moves, occupiedCells(world));
+				expect(rounds, `${model} seed ${seed}`)
+					.to.be.at.most(moves.length);
+				totalMoves += moves.length;
+				totalRounds += rounds;
+			}
+		}
+		expect(totalRounds).to.be.below(totalMoves);
+	});
+});
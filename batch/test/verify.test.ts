@@ -0,0 +1,106 @@
+import {expect} from 'chai';
+
+import {Verifier} from '../src/verify';
+import {worldFromPicture} from './helpers';
+
+describe('Verifier', () => {
+
+	describe('findMove', () => {
+
+		it('reports a missing square', () => {
+			const verifier = new Verifier(worldFromPicture(['##']));
+			expect(verifier.findMove([5, 5], [5, 6]))
+				.to.deep.equal([null, 'there is no square to move']);
+		});
+
+		it('reports cells that are not adjacent', () => {
+			const verifier = new Verifier(worldFromPicture(['##']));
+			expect(verifier.findMove([0, 0], [2, 2])[1])
+				.to.match(/not adjacent/);
+		});
+
+		it('reports an occupied target cell', () => {
+			const verifier = new Verifier(worldFromPicture(['##o']));
+			expect(verifier.findMove([0, 0], [1, 0])[1])
+				.to.equal('the target cell is occupied by a square');
+			expect(verifier.findMove([1, 0], [2, 0])[1])
+				.to.equal('the target cell is occupied by an obstacle');
+		});
+
+		it('reports a slide without squares to slide along', () => {
+			const verifier = new Verifier(worldFromPicture(['##']));
+			expect(verifier.findMove([1, 0], [1, 1])[1])
+				.to.equal('there are no squares or obstacles to slide along ' +
+						'(missing pivot)');
+		});
+
+		it('reports both blocked corner moves', () => {
+			const verifier = new Verifier(worldFromPicture([
+				'# ',
+				'##'
+			]));
+			const [move, reason] = verifier.findMove([0, 0], [1, 1]);
+			expect(move).to.be.null;
+			expect(reason).to.equal('corner move NE is blocked by the cell ' +
+					'in direction N; corner move EN is blocked by the cell ' +
+					'in direction E');
+		});
+
+		it('reports a corner move without a pivot', () => {
+			const verifier = new Verifier(worldFromPicture(['##']));
+			expect(verifier.findMove([0, 0], [-1, 1])[1])
+				.to.match(/corner move NW has no square or obstacle to pivot around/);
+		});
+
+		it('reports a move that disconnects the configuration', () => {
+			const verifier = new Verifier(worldFromPicture([
+				'###',
+				'# #'
+			]));
+			expect(verifier.findMove([1, 1], [1, 0])[1])
+				.to.equal('the move disconnects the configuration');
+		});
+
+		it('accepts a slide along an obstacle', () => {
+			const verifier = new Verifier(worldFromPicture([
+				' ###',
+				'o  #',
+				'o# #',
+				' ###'
+			]));
+			const [move, reason] = verifier.findMove([1, 1], [1, 2]);
+			expect(reason).to.be.null;
+			expect(move!.targetPosition()).to.deep.equal([1, 2]);
+		});
+	});
+
+	describe('verify', () => {
+
+		it('stops at the first invalid move', () => {
+			const verifier = new Verifier(worldFromPicture([
+				'###'
+			]));
+			const moves = verifier.parseMoves(JSON.stringify({
+				'movepaths': [[[2, 0], [1, 1], [0, 1]], [[0, 0], [0, 2]]]
+			}));
+			expect(moves).to.have.length(3);
+			const result = verifier.verify(moves);
+			expect(result.validMoves).to.equal(2);
+			expect(result.invalidMove).to.equal(2);
+			expect(result.reason).to.match(/not adjacent/);
+		});
+
+		it('accepts a valid move sequence', () => {
+			let world = worldFromPicture([
+				'###'
+			]);
+			const verifier = new Verifier(world);
+			const result = verifier.verify(verifier.parseMoves(JSON.stringify({
+				'moves': [[[2, 0], [1, 1]], [[1, 1], [0, 1]]]
+			})));
+			expect(result).to.deep.equal(
+					{validMoves: 2, invalidMove: null, reason: null});
+			expect(world.hasCube([0, 1])).to.be.true;
+		});
+	});
+});
@@ -0,0 +1,167 @@
+import {expect} from 'chai';
+
+import {World} from '../src/world';
+import {Color} from '../src/cube';
+import {findMoveModel} from '../src/move-model';
+import {Random, InstanceGenerator} from '../src/generator';
+import {worldFromPicture, occupiedCells} from './helpers';
+
+/**
+ * Returns the ID of the cube in each occupied cell, keyed by `x,y`.
+ */
+function idsByCell(world: World): Map<string, number> {
+	let ids = new Map<string, number>();
+	for (const cube of world.cubes) {
+		ids.set(`${cube.p[0]},${cube.p[1]}`, world.getCubeId(cube.p)!);
+	}
+	return ids;
+}
+
+/**
+ * Returns the hash of a new world containing the squares of the given world,
+ * added in reverse order (so that the grid grows differently).
+ */
+function hashFromScratch(world: World): string {
+	let copy = new World();
+	for (const cell of occupiedCells(world).reverse()) {
+		const [x, y] = cell.split(',').map(Number);
+		copy.addCube([x, y], Color.GRAY);
+	}
+	return copy.hash();
+}
+
+describe('World', () => {
+
+	describe('hash', () => {
+
+		it('is updated correctly by moves, undo and redo', () => {
+			const world = new InstanceGenerator(8, 8, new Random(1))
+				.generate('eden', 40);
+			const random = new Random(2);
+			let hashes = [world.hash()];
+			for (let i = 0; i < 200; i++) {
+				const cube = world.cubes[random.nextInt(world.cubes.length)];
+				const moves = world.validMovesFrom(cube.p);
+				if (moves.length === 0) {
+					continue;
+				}
+				world.executeMove(moves[random.nextInt(moves.length)], false);
+				expect(world.hash()).to.equal(hashFromScratch(world));
+				hashes.push(world.hash());
+			}
+			expect(hashes.length).to.be.above(50);
+
+			for (let i = hashes.length - 1; i > 0; i--) {
+				world.undo();
+				expect(world.hash()).to.equal(hashes[i - 1]);
+			}
+			for (let i = 1; i < hashes.length; i++) {
+				world.redo();
+				expect(world.hash()).to.equal(hashes[i]);
+			}
+		});
+
+		it('depends only on the occupied cells', () => {
+			const world = worldFromPicture([
+				'##o',
+				'o##'
+			]);
+			const other = worldFromPicture([
+				'##',
+				' ##'
+			]);
+			expect(world.hash()).to.equal(other.hash());
+			expect(world.hash()).to.equal(hashFromScratch(world));
+
+			world.translate(-5, 3);
+			expect(world.hash()).to.not.equal(other.hash());
+			world.translate(5, -3);
+			expect(world.hash()).to.equal(other.hash());
+		});
+	});
+
+	describe('cube IDs', () => {
+
+		it('do not change when another cube is removed', () => {
+			const world = worldFromPicture([
+				'###',
+				'###'
+			]);
+			let before = idsByCell(world);
+			world.removeCube([0, 0]);
+			before.delete('0,0');
+			expect(idsByCell(world)).to.deep.equal(before);
+
+			// the cubes array stays dense, and the grid agrees with it
+			expect(world.cubes.length).to.equal(5);
+			world.cubes.forEach((cube, i) => {
+				expect(world.getCubeIndex(cube.p)).to.equal(i);
+			});
+		});
+
+		it('are not reused for new cubes', () => {
+			const world = worldFromPicture(['##']);
+			const removed = world.getCubeId([1, 0]);
+			world.removeCube([1, 0]);
+			world.addCube([1, 0], world.cubes[0].color);
+			expect(world.getCubeId([1, 0])).to.not.equal(removed);
+			expect(world.getCubeId([0, 0])).to.not.equal(removed);
+		});
+
+		it('do not change when computing a move path', () => {
+			const world = worldFromPicture([
+				'###',
+				'# #',
+				'###'
+			]);
+			const before = idsByCell(world);
+			[...world.shortestMovePath([0, 0], [3, 2])];
+			expect(idsByCell(world)).to.deep.equal(before);
+		});
+
+		it('are not used up by computing a move path', () => {
+			// with obstacles, the path search checks the connectivity after
+			// every move
+			const world = worldFromPicture(['###o']);
+			[...world.shortestMovePath([0, 0], [2, 1])];
+			world.addCube([0, 1], world.cubes[0].color);
+			expect(world.getCubeId([0, 1])).to.equal(3);
+		});
+	});
+
+	describe('serialize', () => {
+
+		it('stores the reset or the current positions', () => {
+			const world = worldFromPicture(['##']);
+			world.model = findMoveModel('pivoting');
+			world.executeMove(world.getMoveTo(world.cubes[1], [0, 1])!, false);
+
+			let reset = new World();
+			reset.deserialize(world.serialize());
+			expect(occupiedCells(reset)).to.deep.equal(['0,0', '1,0']);
+			let current = new World();
+			current.deserialize(world.serialize(true));
+			expect(occupiedCells(current)).to.deep.equal(['0,0', '0,1']);
+			expect(current.model.name).to.equal('pivoting');
+		});
+	});
+
+	describe('findMovePath', () => {
+
+		it('returns null if the target cannot be reached', () => {
+			// a square at (3, 0) would not be connected to the others
+			const world = worldFromPicture(['## ']);
+			const cells = occupiedCells(world);
+			expect(world.findMovePath([0, 0], [3, 0])).to.be.null;
+			expect(() => [...world.shortestMovePath([0, 0], [3, 0])])
+				.to.throw(/^No move path possible/);
+			expect(occupiedCells(world)).to.deep.equal(cells);
+		});
+
+		it('throws if there is no square to move', () => {
+			const world = worldFromPicture(['## ']);
+			expect(() => world.findMovePath([2, 0], [2, 1]))
+				.to.throw(/non-existing cube/);
+		});
+	});
+});
@@ -7,7 +7,7 @@ class CanonicalizeAlgorithm {
 	constructor(public world: World) {}
 
 	*execute(): Algorithm {
-		printStep('Canonicalizing');
+		this.world.tracer.step('Canonicalizing');
 
 		try {
 			while (true) {
@@ -56,10 +56,10 @@ class CanonicalizeAlgorithm {
 			}
 		}
 		for (const c of this.world.cubes) {
-			if (!this.world.hasCube([c.p[0], c.p[1] + 1])) {
+			if (!this.world.isBlocked([c.p[0], c.p[1] + 1])) {
 				check(c.p[0], c.p[1] + 1);
 			}
-			if (!this.world.hasCube([c.p[0] + 1, c.p[1]])) {
+			if (!this.world.isBlocked([c.p[0] + 1, c.p[1]])) {
 				check(c.p[0] + 1, c.p[1]);
 			}
 		}
@@ -1,32 +1,27 @@
 import {Algorithm, World} from '../world';
+import {Transform} from '../geometry';
 
 class CustomAlgorithm {
 
-	constructor(public world: World) {}
+	constructor(public world: World, public moveJson: string) {}
 
 	*execute(): Algorithm {
-		const moveJson = window.prompt('Input move sequence')!;
-		const sequence: any = JSON.parse(moveJson);
-		const [ , , maxX, ] = this.world.bounds();
+		const sequence: any = JSON.parse(this.moveJson);
+		const frame = Transform.fromMsdp(this.world.bounds());
 
 		for (let i = 0; i < sequence['movepaths'].length; i++) {
 			const a = sequence['movepaths'][i];
-			printMiniStep(`Running move path ${i}`);
+			this.world.tracer.subStep('Running move path', `${i}`);
 			for (let i = 0; i < a.length - 1; i++) {
-				const cube = this.world.getCube(this.convert(a[i], maxX));
+				const cube = this.world.getCube(frame.apply(a[i]));
 				if (!cube) {
-					throw "Custom move path tried to move a non-existing cube at " + this.convert(a[i], maxX);
+					throw "Custom move path tried to move a non-existing cube at " + frame.apply(a[i]);
 				}
 				yield* this.world.shortestMovePath(
-					this.convert(a[i], maxX), this.convert(a[i + 1], maxX));
+					frame.apply(a[i]), frame.apply(a[i + 1]));
 			}
 		}
 	}
-
-	private convert(c: [number, number], maxX: number): [number, number] {
-		return [c[1] - 1, maxX - c[0] + 1];
-		//return c;
-	}
 }
 
 export {CustomAlgorithm};
@@ -8,7 +8,7 @@ class GatherAlgorithm {
 
 	*execute(): Algorithm {
 
-		printStep('Gathering');
+		this.world.tracer.step('Gathering');
 
 		//console.log(this.findBoundaryPath(this.world.getCube([1, 0])!, this.world.getCube([0, 1])!));
 		// find light square s
@@ -18,17 +18,161 @@ class GatherAlgorithm {
 		// handle special pocket cases
 
 		const limit = this.world.bridgeLimit();
+
+		// in a light configuration, every bridge is light, so Gather may not
+		// find a square to fill a light square with, or it may fill it with a
+		// square that it takes out again later, and cycle (see Appendix A);
+		// to detect the latter, we remember the configurations in which we
+		// started gathering a light square
+		const light = this.world.cubes.length < limit;
+		let seen = new Set<string>();
+
 		let lightSquare: Cube | null;
 		while (lightSquare = this.findLightSquare(limit)) {
-			printMiniStep(`Gathering light square (${lightSquare.p[0]}, ${lightSquare.p[1]})`);
+			if (light) {
+				if (seen.has(this.world.hash())) {
+					yield* this.gatherLightConfiguration();
+					return;
+				}
+				seen.add(this.world.hash());
+			}
+			this.world.tracer.subStep('Gathering light square',
+					`(${lightSquare.p[0]}, ${lightSquare.p[1]})`);
+			this.world.clearAnnotations();
+			this.world.annotate({
+				type: 'cell', p: lightSquare.p, label: 'light square'
+			});
 
 			const target = this.findGatherTarget(lightSquare);
+			this.world.annotate({
+				type: 'cell', p: target, label: 'gather target'
+			});
 			const leaf = this.findLeafInDescendants(lightSquare);
 			if (leaf === null) {
-				break;
+				if (light) {
+					yield* this.gatherLightConfiguration();
+					return;
+				}
+				throw `cannot gather light square ` +
+						`(${lightSquare.p[0]}, ${lightSquare.p[1]}), ` +
+						`its descendants contain no square that can be moved`;
+			}
+			this.world.annotate({
+				type: 'arrow', from: leaf.p, to: target, label: 'leaf'
+			});
+			// if the walk cannot make a single move (because obstacles are in
+			// the way), the configuration would stay the same forever
+			let moved = false;
+			for (const move of this.walkBoundaryUntil(leaf, target)) {
+				moved = true;
+				yield move;
+			}
+			if (!moved) {
+				throw `cannot gather light square ` +
+						`(${lightSquare.p[0]}, ${lightSquare.p[1]}), ` +
+						`the boundary path is blocked`;
+			}
+		}
+	}
+
+	/**
+	 * Handles a light configuration, that is, one with fewer squares than the
+	 * bridge limit (see Appendix A of the paper), once Gather turns out not
+	 * to make progress on it: the descendants of a light square contain no
+	 * square to fill it with, or Gather cycles. Instead, we build the xy-monotone
+	 * configuration directly: we keep track of the squares that, together with
+	 * the origin, already span a filled rectangle, and repeatedly move the
+	 * square farthest from the origin into the closest empty cell that extends
+	 * this set. Each such move path consists of O(n) moves, so this takes
+	 * O(n^2) = O(Pn) moves in total.
+	 *
+	 * Throws if no square can reach any of the candidate cells, which can
+	 * happen if obstacles are in the way.
+	 */
+	*gatherLightConfiguration(): Algorithm {
+		this.world.tracer.subStep('Light configuration: building an xy-monotone configuration directly');
+		const origin = this.world.downmostLeftmost()!.p;
+		const distance = (p: [number, number]) =>
+				Math.abs(p[0] - origin[0]) + Math.abs(p[1] - origin[1]);
+
+		while (true) {
+			const spanned = this.findSpannedCells(origin);
+			if (spanned.size === this.world.cubes.length) {
+				return;
+			}
+			const sources = this.world.cubes
+				.filter((cube) => !spanned.has(cube.p[0] + ',' + cube.p[1]))
+				.filter((cube) => this.world.isConnected(cube.p));
+			sources.sort((a, b) => distance(b.p) - distance(a.p));
+			const targets = this.findExtendingCells(origin, spanned);
+			targets.sort((a, b) => distance(a) - distance(b));
+
+			let path: Move[] | null = null;
+			for (let i = 0; i < targets.length && path === null; i++) {
+				for (let j = 0; j < sources.length && path === null; j++) {
+					// null if this square cannot reach this cell; then try
+					// the next one
+					path = this.world.findMovePath(sources[j].p, targets[i]);
+				}
+			}
+			this.world.clearAnnotations();
+			if (path === null) {
+				for (const target of targets) {
+					this.world.annotate({
+						type: 'cell', p: target, label: 'unreachable'
+					});
+				}
+				throw `cannot gather light configuration, ` +
+						`no square can reach any of the cells ` +
+						targets.map((t) => `(${t[0]}, ${t[1]})`).join(', ');
+			}
+			this.world.annotate({
+				type: 'arrow',
+				from: path[0].sourcePosition(),
+				to: path[path.length - 1].targetPosition(),
+				label: 'extend rectangle'
+			});
+			yield* path;
+		}
+	}
+
+	/**
+	 * Returns the cells c (as "x,y" strings) such that the rectangle spanned
+	 * by the origin and c is completely filled with squares.
+	 */
+	findSpannedCells(origin: [number, number]): Set<string> {
+		const [, , maxX, maxY] = this.world.bounds();
+		let spanned = new Set<string>();
+		for (let x = origin[0]; x <= maxX; x++) {
+			for (let y = origin[1]; y <= maxY; y++) {
+				if (this.world.hasCube([x, y]) &&
+						(x === origin[0] || spanned.has((x - 1) + ',' + y)) &&
+						(y === origin[1] || spanned.has(x + ',' + (y - 1)))) {
+					spanned.add(x + ',' + y);
+				}
+			}
+		}
+		return spanned;
+	}
+
+	/**
+	 * Returns the empty cells that would be added to the spanned cells (see
+	 * findSpannedCells()) if they were filled.
+	 */
+	findExtendingCells(origin: [number, number],
+			spanned: Set<string>): [number, number][] {
+		let cells: [number, number][] = [];
+		const [, , maxX, maxY] = this.world.bounds();
+		for (let x = origin[0]; x <= maxX + 1; x++) {
+			for (let y = origin[1]; y <= maxY + 1; y++) {
+				if (!this.world.isBlocked([x, y]) &&
+						(x === origin[0] || spanned.has((x - 1) + ',' + y)) &&
+						(y === origin[1] || spanned.has(x + ',' + (y - 1)))) {
+					cells.push([x, y]);
+				}
 			}
-			yield* this.walkBoundaryUntil(leaf, target);
 		}
+		return cells;
 	}
 
 	/**
@@ -67,7 +211,7 @@ class GatherAlgorithm {
 		const [minX, minY, , ] = this.world.bounds();
 		const self = this;
 		const checkNeighbor = function (n: [number, number]): boolean {
-			if (self.world.hasCube(n)) {
+			if (self.world.isBlocked(n)) {
 				return false;
 			}
 			if (!self.world.hasCube([x, n[1]]) || !self.world.hasCube([n[0], y])) {
@@ -259,6 +403,9 @@ class GatherAlgorithm {
 			throw "cannot find a boundary path in both directions from " +
 					c.p + " to " + target;
 		}
+		this.world.annotate({
+			type: 'path', cells: path, label: 'boundary path'
+		});
 		for (let i = 0; i < path.length - 1; i++) {
 			const cube = this.world.getCube(path[i]);
 			if (!cube) {
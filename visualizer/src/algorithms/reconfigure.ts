@@ -0,0 +1,155 @@
+import {Algorithm, World, Move} from '../world';
+
+import {GatherAlgorithm} from './gather';
+import {CompactSortedAlgorithm} from './compact-sorted';
+import {CanonicalizeAlgorithm} from './canonicalize';
+
+/**
+ * Reconfigures the world into a given target configuration with the same
+ * number of cubes.
+ *
+ * Both the start and the target configuration are brought into canonical
+ * form by Gather&Compact followed by canonicalization. The moves computed for
+ * the target are then replayed in reverse, so that together they form a move
+ * sequence from the start to the target configuration.
+ */
+class ReconfigureAlgorithm {
+
+	constructor(public world: World, public targetJson: string) {}
+
+	*execute(): Algorithm {
+		const target = new World();
+		target.deserialize(this.targetJson);
+		for (const obstacle of this.world.obstacles) {
+			if (!target.hasObstacle(obstacle)) {
+				target.addObstacle(obstacle);
+			}
+		}
+		target.obstaclesConnect = this.world.obstaclesConnect;
+		target.model = this.world.model;
+		if (target.cubes.length !== this.world.cubes.length) {
+			throw `Cannot reconfigure ${this.world.cubes.length} ` +
+					`cubes into a target with ${target.cubes.length} cubes`;
+		}
+
+		this.world.tracer.step('Canonicalizing the target configuration');
+		const targetMoves = this.record(target,
+				this.canonicalize(target));
+
+		this.world.tracer.step('Canonicalizing the start configuration');
+		yield* this.canonicalize(this.world);
+
+		this.world.tracer.step('Moving between the canonical configurations');
+		yield* this.bridge(target.cubes.map((cube) => cube.p));
+
+		this.world.tracer.step('Replaying the target moves in reverse');
+		for (let i = targetMoves.length - 1; i >= 0; i--) {
+			const move = targetMoves[i].inverse();
+			if (!move.isValid()) {
+				throw "Reversed move is invalid: " + move.toString();
+			}
+			yield move;
+		}
+	}
+
+	/**
+	 * Runs Gather&Compact followed by canonicalization on the given world.
+	 */
+	private *canonicalize(world: World): Algorithm {
+		yield* new GatherAlgorithm(world).execute();
+		yield* new CompactSortedAlgorithm(world).execute();
+		yield* new CanonicalizeAlgorithm(world).execute();
+	}
+
+	/**
+	 * Runs the given algorithm to completion on another world, and returns
+	 * the moves it made as moves in this world.
+	 */
+	private record(world: World, algorithm: Algorithm): Move[] {
+		let moves: Move[] = [];
+		world.markComponents();
+		let output = algorithm.next();
+		while (!output.done) {
+			const move = output.value;
+			if (!move.isValid()) {
+				throw "Invalid move detected: " + move.toString();
+			}
+			move.execute();
+			moves.push(new Move(this.world,
+					[move.position[0], move.position[1]], move.direction,
+					move.target && [move.target[0], move.target[1]]));
+			output = algorithm.next();
+		}
+		return moves;
+	}
+
+	/**
+	 * Moves cubes one by one until exactly the given cells are occupied.
+	 *
+	 * This is used to get from the canonical start configuration to the
+	 * canonical target configuration. Normally those are the same, but they
+	 * are translated with respect to each other if the two configurations
+	 * got compacted towards different corners.
+	 *
+	 * In every step, a cube that is not yet in place is moved to an empty cell
+	 * that is closer to the target cells. Hence the total distance of the
+	 * cubes to the target cells decreases in every step.
+	 */
+	private *bridge(cells: [number, number][]): Algorithm {
+		const distance = function (p: [number, number]): number {
+			return cells
+				.map((c) => Math.abs(c[0] - p[0]) + Math.abs(c[1] - p[1]))
+				.min();
+		};
+
+		while (this.world.cubes.some((cube) => distance(cube.p) > 0)) {
+
+			// prefer moving cubes that are far away from the target cells
+			const sources = this.world.cubes
+				.map((cube) => cube.p)
+				.filter((p) => distance(p) > 0 && this.world.isConnected(p))
+				.sort((a, b) => distance(b) - distance(a));
+
+			// possible destinations are the empty cells next to the
+			// configuration, the closer to the target cells the better
+			let destinations: [number, number][] = [];
+			for (const cube of this.world.cubes) {
+				const [x, y] = cube.p;
+				const neighbors: [number, number][] =
+						[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+				for (const n of neighbors) {
+					if (!this.world.isBlocked(n) && !destinations.some(
+							(d) => d[0] === n[0] && d[1] === n[1])) {
+						destinations.push(n);
+					}
+				}
+			}
+			destinations.sort((a, b) => distance(a) - distance(b));
+
+			let path: Move[] | null = null;
+			for (const source of sources) {
+				for (const destination of destinations) {
+					if (distance(destination) >= distance(source)) {
+						break;
+					}
+					path = this.world.findMovePath(source, destination);
+					if (path !== null) {
+						break;
+					}
+					// no move path between these cells; try the next one
+				}
+				if (path !== null) {
+					break;
+				}
+			}
+
+			if (path === null) {
+				throw "Cannot move between the canonical start and " +
+						"target configurations";
+			}
+			yield* path;
+		}
+	}
+}
+
+export {ReconfigureAlgorithm};
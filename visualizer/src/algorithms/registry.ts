@@ -0,0 +1,156 @@
+import {Algorithm, World} from '../world';
+
+import {GatherAlgorithm} from './gather';
+import {CompactAlgorithm} from './compact';
+import {CompactSortedAlgorithm} from './compact-sorted';
+import {CanonicalizeAlgorithm} from './canonicalize';
+import {CustomAlgorithm} from './custom';
+import {ReconfigureAlgorithm} from './reconfigure';
+
+/**
+ * An algorithm that moves the cubes of a world.
+ */
+interface AlgorithmRunner {
+	world: World;
+	execute(): Algorithm;
+}
+
+/**
+ * An option that an algorithm needs. The value is a JSON string of the given
+ * type: an instance (as written by World.serialize()) or a move file.
+ */
+type AlgorithmOptionSchema = {
+	name: string;
+	description: string;
+	type: 'instance' | 'moves';
+};
+
+/**
+ * An algorithm in the registry. It consists of one or more phases, which are
+ * run one after another; the number of moves of each phase is reported
+ * separately.
+ */
+type RegisteredAlgorithm = {
+	name: string;
+	description: string;
+	options: AlgorithmOptionSchema[];
+
+	/**
+	 * The names of the phases, in the order in which they are run.
+	 */
+	phases: string[];
+
+	/**
+	 * Whether the component status of the cubes needs to be kept up-to-date
+	 * while running this algorithm.
+	 */
+	marked: boolean;
+
+	/**
+	 * Creates the runners for the phases. The options map contains a value
+	 * for every option in the schema.
+	 */
+	create: (world: World, options: {[name: string]: string}) =>
+			AlgorithmRunner[];
+};
+
+let registry: RegisteredAlgorithm[] = [];
+
+/**
+ * Adds an algorithm to the registry; throws if its name is already in use.
+ */
+function registerAlgorithm(algorithm: RegisteredAlgorithm): void {
+	if (registry.some((a) => a.name === algorithm.name)) {
+		throw `Algorithm ${algorithm.name} is already registered`;
+	}
+	registry.push(algorithm);
+}
+
+/**
+ * Returns the registered algorithms, in registration order.
+ */
+function registeredAlgorithms(): RegisteredAlgorithm[] {
+	return registry.slice();
+}
+
+/**
+ * Returns the algorithm with the given name; throws if it does not exist.
+ */
+function findAlgorithm(name: string): RegisteredAlgorithm {
+	const algorithm = registry.find((a) => a.name === name);
+	if (algorithm === undefined) {
+		throw `Unknown algorithm ${name} (choose from ` +
+				`${registry.map((a) => a.name).join(', ')})`;
+	}
+	return algorithm;
+}
+
+registerAlgorithm({
+	name: 'gc',
+	description: 'Gather&Compact, with sorted compaction',
+	options: [],
+	phases: ['gather', 'compact'],
+	marked: true,
+	create: (world) => [
+		new GatherAlgorithm(world),
+		new CompactSortedAlgorithm(world)
+	]
+});
+
+registerAlgorithm({
+	name: 'gc-unsorted',
+	description: 'Gather&Compact, with the original (unsorted) compaction',
+	options: [],
+	phases: ['gather', 'compact'],
+	marked: true,
+	create: (world) => [
+		new GatherAlgorithm(world),
+		new CompactAlgorithm(world)
+	]
+});
+
+registerAlgorithm({
+	name: 'canonical',
+	description: 'Gather&Compact, followed by moving into canonical form',
+	options: [],
+	phases: ['gather', 'compact', 'canonicalize'],
+	marked: true,
+	create: (world) => [
+		new GatherAlgorithm(world),
+		new CompactSortedAlgorithm(world),
+		new CanonicalizeAlgorithm(world)
+	]
+});
+
+registerAlgorithm({
+	name: 'reconfigure',
+	description: 'Reconfiguration into a target instance via canonical form',
+	options: [{
+		name: 'target',
+		description: 'instance to reconfigure into',
+		type: 'instance'
+	}],
+	phases: ['reconfigure'],
+	marked: true,
+	create: (world, options) => [
+		new ReconfigureAlgorithm(world, options['target'])
+	]
+});
+
+registerAlgorithm({
+	name: 'custom',
+	description: 'Replay of a move file in MSDP\'s coordinates',
+	options: [{
+		name: 'moves',
+		description: 'move file to replay',
+		type: 'moves'
+	}],
+	phases: ['custom'],
+	marked: false,
+	create: (world, options) => [
+		new CustomAlgorithm(world, options['moves'])
+	]
+});
+
+export {AlgorithmRunner, AlgorithmOptionSchema, RegisteredAlgorithm,
+	registerAlgorithm, registeredAlgorithms, findAlgorithm};
@@ -0,0 +1,241 @@
+import {World} from './world';
+
+/**
+ * A biconnected component of the configuration: either a chunk (a maximal
+ * 2-connected set of cubes) or a link (a single edge between two cubes that
+ * is not on any cycle).
+ */
+type Block = {
+	cubes: number[];
+	chunk: boolean;
+
+	/**
+	 * The cube of this block closest to the root, through which the block is
+	 * attached to the rest of the tree (or the root itself).
+	 */
+	attachment: number;
+};
+
+/**
+ * A cube on the stack of the depth-first search, with its neighbors (in the
+ * order W, E, S, N; null for empty cells) and the index of the next neighbor
+ * to handle.
+ */
+type SearchFrame = {
+	cube: number;
+	parent: number;
+	neighbors: (number | null)[];
+	next: number;
+};
+
+/**
+ * The block-cut tree of a connected configuration, rooted at the
+ * downmost-leftmost cube.
+ *
+ * All information is computed in a single depth-first search (Tarjan's
+ * algorithm for biconnected components):
+ *
+ *  * the blocks (chunks and links) and which blocks each cube is in;
+ *
+ *  * which cubes are cut cubes;
+ *
+ *  * for each cube, the number of its descendants, that is, the number of
+ *    cubes that get disconnected from the root if the cube is removed.
+ *
+ * Cubes are identified by their index in World.cubes (not by their ID). The
+ * tree does not update itself when the world changes; World keeps it up to
+ * date through Connectivity.
+ */
+class BlockCutTree {
+
+	readonly root: number;
+	readonly blocks: Block[] = [];
+
+	/**
+	 * For each cube, the indices of the blocks it is in. The first block is
+	 * the one closest to the root.
+	 */
+	readonly cubeBlocks: number[][];
+
+	readonly cut: boolean[];
+	readonly descendants: number[];
+
+	private depth: number[];
+	private low: number[];
+	private size: number[];
+	// the edges (pairs of cubes) of the blocks not completed yet, flattened
+	private edgeStack: number[] = [];
+
+	// for each cube, the last block it was added to, to avoid adding it to
+	// the same block twice
+	private lastBlock: number[];
+
+	/**
+	 * Computes the block-cut tree. The configuration needs to be connected.
+	 */
+	constructor(private world: World) {
+		const n = world.cubes.length;
+		this.cubeBlocks = [];
+		for (let i = 0; i < n; i++) {
+			this.cubeBlocks.push([]);
+		}
+		this.cut = Array(n).fill(false);
+		this.descendants = Array(n).fill(0);
+		this.depth = Array(n).fill(-1);
+		this.low = Array(n).fill(-1);
+		this.size = Array(n).fill(1);
+		this.lastBlock = Array(n).fill(-1);
+
+		const origin = world.downmostLeftmost();
+		this.root = origin === null ? -1 : world.getCubeIndex(origin.p)!;
+		if (this.root !== -1) {
+			this.search();
+			this.descendants[this.root] = n - 1;
+		}
+	}
+
+	/**
+	 * Checks if the given cube is in a chunk.
+	 */
+	isInChunk(cube: number): boolean {
+		return this.cubeBlocks[cube].some((b) => this.blocks[b].chunk);
+	}
+
+	/**
+	 * Checks if the given cube is in a link, or is not in any block (which
+	 * happens only if it is the only cube).
+	 */
+	isInLink(cube: number): boolean {
+		return this.cubeBlocks[cube].length === 0 ||
+				this.cubeBlocks[cube].some((b) => !this.blocks[b].chunk);
+	}
+
+	/**
+	 * Runs the depth-first search from the root. To handle configurations of
+	 * any size, this uses an explicit stack instead of recursion.
+	 */
+	private search(): void {
+		let stack: SearchFrame[] = [this.enter(this.root, -1, 0)];
+		let rootChildren = 0;
+
+		while (stack.length) {
+			const frame = stack[stack.length - 1];
+			const i = frame.cube;
+
+			if (frame.next === frame.neighbors.length) {
+				// all neighbors handled: return to the parent
+				stack.pop();
+				if (frame.parent !== -1) {
+					this.leave(frame.parent, i,
+							stack.length > 1 ? stack[stack.length - 2].cube : -1);
+				}
+				continue;
+			}
+
+			const c = frame.neighbors[frame.next++];
+			if (c === null || c === frame.parent) {
+				continue;
+			}
+			if (this.depth[c] === -1) {
+				this.edgeStack.push(i, c);
+				if (i === this.root) {
+					rootChildren++;
+				}
+				stack.push(this.enter(c, i, this.depth[i] + 1));
+			} else if (this.depth[c] < this.depth[i]) {
+				// back edge
+				this.edgeStack.push(i, c);
+				this.low[i] = Math.min(this.low[i], this.depth[c]);
+			}
+		}
+
+		this.cut[this.root] = rootChildren > 1;
+	}
+
+	/**
+	 * Visits cube i, with the given parent and depth, and returns its stack
+	 * frame.
+	 */
+	private enter(i: number, parent: number, d: number): SearchFrame {
+		this.depth[i] = d;
+		this.low[i] = d;
+		const [x, y] = this.world.cubes[i].p;
+		return {
+			cube: i,
+			parent: parent,
+			neighbors: [
+				this.world.getCubeIndex([x - 1, y]),
+				this.world.getCubeIndex([x + 1, y]),
+				this.world.getCubeIndex([x, y - 1]),
+				this.world.getCubeIndex([x, y + 1])
+			],
+			next: 0
+		};
+	}
+
+	/**
+	 * Handles returning from child c to its parent i (whose own parent is
+	 * given, or -1 if i is the root).
+	 */
+	private leave(i: number, c: number, parent: number): void {
+		this.size[i] += this.size[c];
+		this.low[i] = Math.min(this.low[i], this.low[c]);
+		if (this.low[c] >= this.depth[i]) {
+			// i separates the subtree of c from the root
+			this.descendants[i] += this.size[c];
+			if (parent !== -1) {
+				this.cut[i] = true;
+			}
+			this.popBlock(i, c);
+		}
+	}
+
+	/**
+	 * Pops the edges of the block containing tree edge (i, c) from the edge
+	 * stack, and stores the block.
+	 */
+	private popBlock(i: number, c: number): void {
+		const blockId = this.blocks.length;
+		let block: Block = {
+			cubes: [],
+			chunk: false,
+			attachment: i
+		};
+		this.blocks.push(block);
+		let edgeCount = 0;
+		while (true) {
+			const v = this.edgeStack.pop()!;
+			const u = this.edgeStack.pop()!;
+			this.addToBlock(u, blockId);
+			this.addToBlock(v, blockId);
+			edgeCount++;
+			if (u === i && v === c) {
+				break;
+			}
+		}
+		block.chunk = edgeCount > 1;
+	}
+
+	/**
+	 * Adds a cube to a block, if it is not in there yet.
+	 */
+	private addToBlock(cube: number, blockId: number): void {
+		if (this.lastBlock[cube] === blockId) {
+			return;
+		}
+		this.lastBlock[cube] = blockId;
+		const block = this.blocks[blockId];
+		block.cubes.push(cube);
+
+		// the attachment is the only cube of this block that can also be in a
+		// block closer to the root, which is found later in the search (the
+		// other cubes have all their blocks closer to the root already)
+		if (cube === block.attachment) {
+			this.cubeBlocks[cube].push(blockId);
+		} else {
+			this.cubeBlocks[cube].unshift(blockId);
+		}
+	}
+}
+
+export {Block, BlockCutTree};
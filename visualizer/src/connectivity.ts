@@ -0,0 +1,171 @@
+import {World} from './world';
+import {BlockCutTree} from './block-cut-tree';
+
+/**
+ * Cached connectivity information; null means that it is not known.
+ */
+type ConnectivityState = {
+	connected: boolean | null;
+	tree: BlockCutTree | null;
+};
+
+/**
+ * Keeps track of the connectivity of a world: whether the configuration is
+ * connected, and its block-cut tree (which determines the chunks, links and
+ * cut cubes).
+ *
+ * Whenever the world changes, it calls invalidate() (or moved(), if a single
+ * cube moved); the connectivity is then recomputed lazily, the first time it
+ * is queried afterwards. Algorithms typically query the connectivity many
+ * times between two moves (for all candidate moves, or for all cells in a
+ * move path search), so each query costs O(1) amortized instead of a BFS over
+ * the entire configuration.
+ *
+ * Some updates can be done without recomputing anything:
+ *
+ *  * cubes whose neighbors are connected among themselves within the 3x3
+ *    neighborhood of the cube are never cut cubes;
+ *
+ *  * moving a stable cube to a cell next to another cube keeps the
+ *    configuration connected;
+ *
+ *  * undoing the last move (as algorithms do after trying out a move)
+ *    restores the connectivity from before that move.
+ *
+ * This does not take obstacles into account; if obstacles count toward
+ * connectivity, World falls back to a BFS instead.
+ */
+class Connectivity {
+
+	private state: ConnectivityState = {
+		connected: null,
+		tree: null
+	};
+
+	// the last move and the state before it, to be restored if the move is
+	// undone
+	private lastMove: [[number, number], [number, number]] | null = null;
+	private stateBeforeLastMove: ConnectivityState | null = null;
+
+	constructor(private world: World) {}
+
+	/**
+	 * Marks the cached connectivity as outdated. Needs to be called whenever
+	 * a cube is added or removed, or the configuration changes otherwise
+	 * (except for single moves, see moved()).
+	 */
+	invalidate(): void {
+		this.state = {connected: null, tree: null};
+		this.lastMove = null;
+		this.stateBeforeLastMove = null;
+	}
+
+	/**
+	 * Updates the connectivity after the cube at from moved to the empty cell
+	 * to. Needs to be called after the world has been updated.
+	 */
+	moved(from: [number, number], to: [number, number]): void {
+		if (this.lastMove !== null &&
+				this.lastMove[0][0] === to[0] && this.lastMove[0][1] === to[1] &&
+				this.lastMove[1][0] === from[0] && this.lastMove[1][1] === from[1]) {
+			this.state = this.stateBeforeLastMove!;
+			this.lastMove = null;
+			this.stateBeforeLastMove = null;
+			return;
+		}
+
+		const before = this.state;
+		const index = this.world.getCubeIndex(to)!;
+		const attached = this.world.getNeighbors(to).length > 0;
+		this.state = {
+			connected: before.connected && before.tree !== null &&
+					!before.tree.cut[index] && attached ? true : null,
+			tree: null
+		};
+		this.lastMove = [[from[0], from[1]], [to[0], to[1]]];
+		this.stateBeforeLastMove = before;
+	}
+
+	/**
+	 * Checks if the configuration is connected.
+	 */
+	isConnected(): boolean {
+		if (this.state.connected === null) {
+			this.state.connected = this.world.isConnectedBFS();
+		}
+		return this.state.connected;
+	}
+
+	/**
+	 * Checks if the configuration is still connected when the cube at the
+	 * given location is ignored (considered as non-existing). If the location
+	 * is empty, this is equivalent to isConnected().
+	 */
+	isConnectedWithout(p: [number, number]): boolean {
+		const index = this.world.getCubeIndex(p);
+		if (index === null) {
+			return this.isConnected();
+		}
+		if (!this.isConnected()) {
+			// removing a cube from a disconnected configuration may make it
+			// connected (if the cube was on its own), so we cannot use the
+			// cut cubes here
+			return this.world.isConnectedBFS(p);
+		}
+		if (this.isLocallyStable(p)) {
+			return true;
+		}
+		return !this.blockCutTree().cut[index];
+	}
+
+	/**
+	 * Returns the block-cut tree of the configuration. If the configuration
+	 * is disconnected, the tree contains only the component of the root.
+	 */
+	blockCutTree(): BlockCutTree {
+		if (this.state.tree === null) {
+			this.state.tree = new BlockCutTree(this.world);
+		}
+		return this.state.tree;
+	}
+
+	/**
+	 * Checks if the 4-neighbors of the cube at p are connected to each other
+	 * via the 8 cells around p. If so, removing the cube does not disconnect
+	 * the configuration.
+	 */
+	private isLocallyStable([x, y]: [number, number]): boolean {
+		// the 8 cells around p in cyclic order, in which consecutive cells
+		// are 4-adjacent; the even indices are the 4-neighbors of p
+		const ring: [number, number][] = [
+			[x, y + 1], [x + 1, y + 1], [x + 1, y], [x + 1, y - 1],
+			[x, y - 1], [x - 1, y - 1], [x - 1, y], [x - 1, y + 1]
+		];
+		const has = ring.map((c) => this.world.hasCube(c));
+		if (has.every((h) => h)) {
+			return true;
+		}
+
+		// count the runs of filled cells around p that contain a 4-neighbor
+		const start = has.indexOf(false);
+		let runs = 0;
+		let inRun = false;
+		let runHasNeighbor = false;
+		for (let i = 1; i <= 8; i++) {
+			const j = (start + i) % 8;
+			if (has[j]) {
+				inRun = true;
+				runHasNeighbor = runHasNeighbor || j % 2 === 0;
+			} else if (inRun) {
+				if (runHasNeighbor) {
+					runs++;
+				}
+				inRun = false;
+				runHasNeighbor = false;
+			}
+		}
+		return runs <= 1;
+	}
+}
+
+export {Connectivity};
@@ -48,7 +48,8 @@ class Cube {
 	dotsLayer = new PIXI.Container();
 	selected: boolean = false;
 
-	constructor(private world: World, p: [number, number], color: Color) {
+	constructor(private world: World, readonly id: number,
+			p: [number, number], color: Color) {
 		this.p = [p[0], p[1]];
 		this.resetPosition = [p[0], p[1]];
 		this.color = color;
@@ -1,13 +1,17 @@
 import * as PIXI from 'pixi.js';
 
 import {Cube, Color} from './cube';
-import {World, Move} from './world';
-import {Button, Separator, Toolbar} from './ui';
+import {World} from './world';
+import {Annotation} from './annotation';
+import {Tracer, ConsoleSink, MultiSink} from './tracer';
+import {Watchdog} from './watchdog';
+import {MoveStep, Scheduler} from './schedule';
+import {Button, Separator, Toolbar, TimelineMarker, Timeline} from './ui';
 
-import {CompleteAlgorithm} from './algorithms/complete';
+import {registeredAlgorithms, findAlgorithm} from './algorithms/registry';
 
 enum EditMode {
-	SELECT, ADD_BALL
+	SELECT, ADD_BALL, ADD_WALL
 }
 
 enum SimulationMode {
@@ -26,7 +30,27 @@ class CubesSimulator {
 	timeSpeed: number = 0.5;
 
 	world: World;
-	algorithm: Generator<Move> | null = null;
+
+	// number of moves the algorithm makes; when the simulation is started,
+	// all moves are computed up front and stored in the move history of the
+	// world, so that we can go back and forth in time
+	moveCount = 0;
+
+	// whether the moves are shown in parallel rounds (see Scheduler), in
+	// which many squares move at once, instead of one by one
+	parallel = false;
+
+	// the first move of each time step (an index in the move history),
+	// followed by the number of moves; without parallel rounds, every time
+	// step has a single move
+	private stepStarts: number[] = [0];
+
+	// the annotations currently drawn on top of the world
+	private shownAnnotations: Annotation[] = [];
+
+	// name of the registered algorithm to run, and the values of its options
+	algorithmName = 'gc';
+	algorithmOptions: {[name: string]: string} = {};
 
 	// selected objects
 	private selection: Cube[] = [];
@@ -37,17 +61,22 @@ class CubesSimulator {
 
 	// GUI elements
 	private bottomBar: Toolbar;
+	private timeline: Timeline;
 
+	private stepBackButton: Button;
 	private runButton: Button;
 	private stepButton: Button;
+	private endButton: Button;
 	private resetButton: Button;
 	
 	private selectButton: Button;
 	private addCubeButton: Button;
+	private addWallButton: Button;
 	private colorButton: Button;
 	private deleteButton: Button;
 
 	private saveButton: Button;
+	private algorithmButton: Button;
 	private ipeButton: Button;
 	private showTreeButton: Button;
 
@@ -61,6 +90,12 @@ class CubesSimulator {
 
 		this.bottomBar = new Toolbar();
 
+		this.stepBackButton = new Button("step", "Go one step back");
+		this.stepBackButton.setMirrored(true);
+		this.stepBackButton.onClick(this.stepBack.bind(this));
+		this.stepBackButton.setEnabled(false);
+		this.bottomBar.addChild(this.stepBackButton);
+
 		this.runButton = new Button("play", "Run simulation", "Space");
 		this.runButton.onClick(this.run.bind(this));
 		this.bottomBar.addChild(this.runButton);
@@ -69,6 +104,11 @@ class CubesSimulator {
 		this.stepButton.onClick(this.step.bind(this));
 		this.bottomBar.addChild(this.stepButton);
 
+		this.endButton = new Button("reset", "Jump to the end");
+		this.endButton.setMirrored(true);
+		this.endButton.onClick(this.jumpToEnd.bind(this));
+		this.bottomBar.addChild(this.endButton);
+
 		this.resetButton = new Button("reset", "Reset simulation", "R");
 		this.resetButton.onClick(this.reset.bind(this));
 		this.resetButton.setEnabled(false);
@@ -87,6 +127,11 @@ class CubesSimulator {
 		this.addCubeButton.onClick(this.addCubesMode.bind(this));
 		this.bottomBar.addChild(this.addCubeButton);
 
+		this.addWallButton = new Button(
+			"add-wall", "Add/remove walls", "W");
+		this.addWallButton.onClick(this.addWallsMode.bind(this));
+		this.bottomBar.addChild(this.addWallButton);
+
 		this.colorButton = new Button(
 			"color", "Change color");
 		this.colorButton.onClick(
@@ -124,11 +169,20 @@ class CubesSimulator {
 		this.saveButton.onClick(this.save.bind(this));
 		this.bottomBar.addChild(this.saveButton);
 
+		this.algorithmButton = new Button(
+			"load", "Choose algorithm");
+		this.algorithmButton.onClick(this.chooseAlgorithm.bind(this));
+		this.bottomBar.addChild(this.algorithmButton);
+
 		this.ipeButton = new Button(
 			"save", "Ipe export");
 		this.ipeButton.onClick(this.ipeExport.bind(this));
 		//this.bottomBar.addChild(this.ipeButton);
 
+		this.timeline = new Timeline();
+		this.timeline.onSeek(this.seekTo.bind(this));
+		this.timeline.rebuildPixi();
+		this.timeline.getPixi().visible = false;
 
 		// set up event handlers for dialog buttons
 		const loadButton = document.getElementById('load-button');
@@ -161,6 +215,7 @@ class CubesSimulator {
 
 		this.bottomBar.rebuildPixi();
 		this.app.stage.addChild(this.bottomBar.getPixi());
+		this.app.stage.addChild(this.timeline.getPixi());
 
 		// click handler
 		this.world.pixi.interactive = true;
@@ -178,8 +233,15 @@ class CubesSimulator {
 				this.selectMode();
 			} else if (event.key === "c") {
 				this.addCubesMode();
+			} else if (event.key === "w") {
+				this.addWallsMode();
 			} else if (event.key === "Delete") {
 				this.delete();
+			} else if (event.key === "a") {
+				this.world.annotationPixi.visible =
+					!this.world.annotationPixi.visible;
+			} else if (event.key === "p") {
+				this.toggleParallel();
 			}
 		});
 
@@ -213,36 +275,17 @@ class CubesSimulator {
 		if (this.simulationMode === SimulationMode.RUNNING) {
 			this.time += this.timeSpeed * delta;
 
-			if (this.time > this.runUntil) {
+			if (this.time >= this.stepCount()) {
+				this.time = this.stepCount();
+				console.log(`Time step ${this.stepCount()}. No move left, so pausing the simulation.`);
+				this.pause();
+			} else if (this.time > this.runUntil) {
 				this.time = this.runUntil;
-				this.simulationMode = SimulationMode.PAUSED;
-				this.runButton.setIcon("play");
-				this.runButton.setTooltip("Run simulation");
-				this.stepButton.setEnabled(true);
+				this.pause();
 			}
 		}
 
-		while (this.time > this.timeStep) {
-			this.timeStep++;
-			//try {
-				this.world.nextStep(this.algorithm!, this.timeStep);
-			/*} catch (e) {
-				const cryEmoji = String.fromCodePoint(parseInt('1F622', 16));
-				console.log(`Time step ${this.timeStep}. Threw exception: ${e}. Pausing the simulation ${cryEmoji}`);
-				this.run();  // pause
-				throw e;
-				break;*/
-			//}
-			if (this.world.currentMove) {
-				console.log(`Time step ${this.timeStep}. Move: ${this.world.currentMove.toString()}`);
-			}
-			if (this.simulationMode === SimulationMode.RUNNING &&
-					!this.world.currentMove) {
-				console.log(`Time step ${this.timeStep}. No move left, so pausing the simulation.`);
-				this.run();  // pause
-				break;
-			}
-		}
+		this.showTime();
 
 		this.world.pixi.x = window.innerWidth / 2;
 		this.world.pixi.y = window.innerHeight / 2;
@@ -250,15 +293,65 @@ class CubesSimulator {
 		this.world.backgroundPixi.y = window.innerHeight / 2;
 		this.world.gridPixi.x = window.innerWidth / 2;
 		this.world.gridPixi.y = window.innerHeight / 2;
+		this.world.obstaclePixi.x = window.innerWidth / 2;
+		this.world.obstaclePixi.y = window.innerHeight / 2;
 		this.world.treePixi.x = window.innerWidth / 2;
 		this.world.treePixi.y = window.innerHeight / 2;
+		this.world.annotationPixi.x = window.innerWidth / 2;
+		this.world.annotationPixi.y = window.innerHeight / 2;
 
 		this.bottomBar.setPosition(
 			window.innerWidth / 2 - this.bottomBar.getWidth() / 2,
 			window.innerHeight - this.bottomBar.getHeight());
+		this.timeline.setPosition(
+			window.innerWidth / 2 - this.timeline.getWidth() / 2,
+			window.innerHeight - this.bottomBar.getHeight() -
+				this.timeline.getHeight() - 16);
 
 		this.world.updatePositions(this.time, this.timeStep);
 	}
+
+	/**
+	 * Returns the number of time steps: the number of moves, or the number of
+	 * rounds if the moves are shown in parallel rounds.
+	 */
+	private stepCount(): number {
+		return this.stepStarts.length - 1;
+	}
+
+	/**
+	 * Brings the world into the state at the current time: the moves before
+	 * the current time step are applied, and the moves of the current time
+	 * step (if any) form the current round, to be animated.
+	 */
+	private showTime(): void {
+		const step = Math.floor(this.time);
+		const start = this.stepStarts[step];
+		if (this.world.getHistoryStep() !== start) {
+			this.world.seek(start);
+		}
+		this.world.currentRound = this.time > step ?
+			this.world.getHistory().slice(start, this.stepStarts[step + 1]) : [];
+
+		if (this.timeStep !== step + 1) {
+			this.timeStep = step + 1;
+			if (this.simulationMode === SimulationMode.RUNNING &&
+					this.world.currentRound.length) {
+				console.log(`Time step ${this.timeStep}. ` +
+						(this.parallel ? 'Moves' : 'Move') + ': ' +
+						this.world.currentRound.join(', '));
+			}
+		}
+		this.timeline.setValue(this.time);
+
+		// the annotations of the algorithm describe the move that is made
+		// from this step (for a round, its first move)
+		const annotations = this.world.getAnnotations(start);
+		if (annotations !== this.shownAnnotations) {
+			this.world.updateAnnotationPixi(annotations);
+			this.shownAnnotations = annotations;
+		}
+	}
 	
 	worldClickHandler(e: PIXI.interaction.InteractionEvent): void {
 		const p = e.data.getLocalPosition(this.world.pixi);
@@ -282,91 +375,251 @@ class CubesSimulator {
 
 				const cube = this.world.getCube([x, y]);
 				if (!cube) {
-					const newCube = this.world.addCube([x, y], this.lastColor);
-					this.deselect();
-					this.select(newCube);
+					if (!this.world.hasObstacle([x, y])) {
+						const newCube = this.world.addCube([x, y], this.lastColor);
+						this.deselect();
+						this.select(newCube);
+					}
 				} else {
 					this.world.removeCube(cube.p);
 				}
 			}
+
+			if (this.editMode === EditMode.ADD_WALL) {
+				x = Math.round(x);
+				y = Math.round(y);
+
+				if (this.world.hasObstacle([x, y])) {
+					this.world.removeObstacle([x, y]);
+				} else if (!this.world.hasCube([x, y])) {
+					this.world.addObstacle([x, y]);
+					this.world.markComponents();
+				}
+			}
+		}
+	}
+
+	/**
+	 * Runs the algorithm to the end, recording its moves in the move history
+	 * of the world, and then puts the world back into its starting state.
+	 * The timeline marks where each phase of the algorithm starts.
+	 *
+	 * If the algorithm throws, the moves up to that point are kept, so that
+	 * we can still inspect what happened before; the annotations at the end
+	 * of the timeline then show what the algorithm was trying to do. As a
+	 * run that does not terminate would freeze the page, runs are aborted
+	 * after a million moves (see Watchdog).
+	 *
+	 * If the moves are shown in parallel rounds, they are packed into rounds
+	 * (see scheduleMoves()), and the timeline has a step per round.
+	 */
+	computeMoves(): void {
+		const algorithm = findAlgorithm(this.algorithmName);
+		let watchdog = new Watchdog(this.world);
+		watchdog.maxMoves = 1000000;
+		this.world.tracer = new Tracer(new MultiSink(
+				[new ConsoleSink(), watchdog]));
+		const runners = algorithm.create(this.world, this.algorithmOptions);
+		let markers: TimelineMarker[] = [];
+		try {
+			for (let i = 0; i < runners.length; i++) {
+				markers.push({
+					step: this.world.getHistoryStep(),
+					label: algorithm.phases[i]
+				});
+				this.world.clearAnnotations();
+				this.world.tracer.startPhase(algorithm.phases[i]);
+				const moves = runners[i].execute();
+				do {
+					this.world.nextStep(moves, this.world.getHistoryStep() + 1);
+				} while (this.world.currentMove);
+				this.world.tracer.endPhase();
+			}
+			this.world.clearAnnotations();
+		} catch (e) {
+			console.log(e);
+			window.alert(`The algorithm threw an exception after ` +
+					`${this.world.getHistoryStep()} moves: ${e}`);
+		}
+
+		this.moveCount = this.world.getHistory().length;
+		this.world.seek(0);
+		this.stepStarts = [...Array(this.moveCount + 1).keys()];
+		if (this.parallel) {
+			const stepOf = this.scheduleMoves();
+			markers = markers.map((marker) => ({
+				step: stepOf[marker.step],
+				label: marker.label
+			}));
 		}
+		this.timeline.setLength(this.stepCount(), markers);
+	}
+
+	/**
+	 * Packs the moves in the move history into parallel rounds (see
+	 * Scheduler), and reorders the history such that the moves of each round
+	 * are consecutive. Sets the starts of the time steps to those of the
+	 * rounds, and returns, for each move in the original order, the time step
+	 * it is in (followed by the number of time steps).
+	 *
+	 * The world has to be in its starting state.
+	 */
+	private scheduleMoves(): number[] {
+		let copy = new World();
+		copy.deserialize(this.world.serialize());
+		const rounds = new Scheduler(copy).schedule(this.world.getHistory()
+			.map((move): MoveStep =>
+				[move.sourcePosition(), move.targetPosition()]));
+
+		let stepOf: number[] = [];
+		this.stepStarts = [0];
+		rounds.forEach((round, r) => {
+			round.forEach((i) => stepOf[i] = r);
+			this.stepStarts.push(this.stepStarts[r] + round.length);
+		});
+		stepOf.push(rounds.length);
+		this.world.reorderHistory(
+			rounds.reduce((order, round) => order.concat(round), []));
+		return stepOf;
 	}
 
-	createAlgorithm(): Generator<Move> {
-		return new CompleteAlgorithm(this.world).execute();
+	/**
+	 * Leaves edit mode, if we are still in it: computes the moves and
+	 * disables the edit buttons.
+	 */
+	private start(): void {
+		if (this.simulationMode !== SimulationMode.RESET) {
+			return;
+		}
+		this.deselect();
+		this.selectButton.setEnabled(false);
+		this.addCubeButton.setEnabled(false);
+		this.addWallButton.setEnabled(false);
+		this.saveButton.setEnabled(false);
+		this.algorithmButton.setEnabled(false);
+		this.resetButton.setEnabled(true);
+
+		this.computeMoves();
+		this.simulationMode = SimulationMode.PAUSED;
+		this.timeline.getPixi().visible = true;
+	}
+
+	private pause(): void {
+		this.simulationMode = SimulationMode.PAUSED;
+		this.runButton.setIcon("play");
+		this.runButton.setTooltip("Run simulation");
+		this.updateTimeButtons();
+	}
+
+	private updateTimeButtons(): void {
+		const running = this.simulationMode === SimulationMode.RUNNING;
+		const reset = this.simulationMode === SimulationMode.RESET;
+		this.stepBackButton.setEnabled(!running && !reset && this.time > 0);
+		this.stepButton.setEnabled(!running &&
+			(reset || this.time < this.stepCount()));
+		this.endButton.setEnabled(!running &&
+			(reset || this.time < this.stepCount()));
 	}
 
 	// button handlers
 
 	run(): void {
 		if (this.simulationMode === SimulationMode.RUNNING) {
-			this.simulationMode = SimulationMode.PAUSED;
-			this.runButton.setIcon("play");
-			this.runButton.setTooltip("Run simulation");
-			this.stepButton.setEnabled(true);
-		} else {
-			this.runUntil = Infinity;
-			this.simulationMode = SimulationMode.RUNNING;
-			this.runButton.setIcon("pause");
-			this.runButton.setTooltip("Pause simulation");
-			this.stepButton.setEnabled(false);
+			this.pause();
+			return;
 		}
 
-		if (this.selectButton.isEnabled()) {
-			this.algorithm = this.createAlgorithm();
-			this.deselect();
-			this.selectButton.setEnabled(false);
-			this.addCubeButton.setEnabled(false);
-			this.saveButton.setEnabled(false);
-		}
-		this.resetButton.setEnabled(true);
+		this.start();
+		this.runUntil = Infinity;
+		this.simulationMode = SimulationMode.RUNNING;
+		this.runButton.setIcon("pause");
+		this.runButton.setTooltip("Pause simulation");
+		this.updateTimeButtons();
 	}
 
 	step(): void {
+		this.start();
 		this.runUntil = Math.floor(this.time) + 1;
 		this.simulationMode = SimulationMode.RUNNING;
 		this.runButton.setIcon("pause");
 		this.runButton.setTooltip("Pause simulation");
+		this.updateTimeButtons();
+	}
 
-		if (this.selectButton.isEnabled()) {
-			this.algorithm = this.createAlgorithm();
-			this.deselect();
-			this.selectButton.setEnabled(false);
-			this.addCubeButton.setEnabled(false);
-			this.saveButton.setEnabled(false);
-		}
-		this.stepButton.setEnabled(false);
-		this.resetButton.setEnabled(true);
+	stepBack(): void {
+		this.seekTo(Math.ceil(this.time) - 1);
+	}
+
+	jumpToEnd(): void {
+		this.start();
+		this.seekTo(this.stepCount());
+	}
+
+	/**
+	 * Pauses the simulation and jumps to the given time step.
+	 */
+	seekTo(step: number): void {
+		this.time = Math.max(0, Math.min(this.stepCount(), step));
+		this.pause();
 	}
 
 	reset(): void {
 		this.simulationMode = SimulationMode.RESET;
 		this.runButton.setIcon("play");
 		this.runButton.setTooltip("Run simulation");
-		this.stepButton.setEnabled(true);
 		this.resetButton.setEnabled(false);
 
 		this.selectButton.setEnabled(true);
 		this.addCubeButton.setEnabled(true);
+		this.addWallButton.setEnabled(true);
 		this.saveButton.setEnabled(true);
+		this.algorithmButton.setEnabled(true);
 
 		this.world.reset();
 		this.time = 0;
 		this.timeStep = 0;
 		this.runUntil = Infinity;
-		this.algorithm = null;
+		this.moveCount = 0;
+		this.stepStarts = [0];
+		this.timeline.setLength(0, []);
+		this.timeline.getPixi().visible = false;
+		this.updateTimeButtons();
+	}
+
+	/**
+	 * Switches between showing the moves one by one and in parallel rounds.
+	 * If the simulation was started, the moves are computed again.
+	 */
+	toggleParallel(): void {
+		this.parallel = !this.parallel;
+		console.log(this.parallel ? 'Showing the moves in parallel rounds' :
+				'Showing the moves one by one');
+		if (this.simulationMode !== SimulationMode.RESET) {
+			this.reset();
+			this.start();
+			this.updateTimeButtons();
+		}
 	}
 
 	selectMode(): void {
 		this.editMode = EditMode.SELECT;
 		this.selectButton.setPressed(true);
 		this.addCubeButton.setPressed(false);
+		this.addWallButton.setPressed(false);
 	}
 
 	addCubesMode(): void {
 		this.editMode = EditMode.ADD_BALL;
 		this.selectButton.setPressed(false);
 		this.addCubeButton.setPressed(true);
+		this.addWallButton.setPressed(false);
+	}
+
+	addWallsMode(): void {
+		this.editMode = EditMode.ADD_WALL;
+		this.selectButton.setPressed(false);
+		this.addCubeButton.setPressed(false);
+		this.addWallButton.setPressed(true);
 	}
 	
 	delete(): void {
@@ -410,6 +663,48 @@ class CubesSimulator {
 		this.setup();
 	}
 
+	chooseAlgorithm(): void {
+		const algorithms = registeredAlgorithms();
+		const name = window.prompt('Choose algorithm:\n\n' +
+				algorithms.map((a) => `${a.name}: ${a.description}`).join('\n'),
+				this.algorithmName);
+		if (name === null) {
+			return;
+		}
+		let algorithm;
+		try {
+			algorithm = findAlgorithm(name.trim());
+		} catch (e) {
+			window.alert(e);
+			return;
+		}
+
+		let options: {[name: string]: string} = {};
+		for (const option of algorithm.options) {
+			const value = window.prompt(`Input ${option.description}` +
+					(option.type === 'instance' ?
+						' (as obtained from the Save & load dialog)' : ''));
+			if (value === null) {
+				return;
+			}
+			try {
+				if (option.type === 'instance') {
+					new World().deserialize(value);
+				} else {
+					JSON.parse(value);
+				}
+			} catch (e) {
+				window.alert('Could not read JSON data: ' + e);
+				return;
+			}
+			options[option.name] = value;
+		}
+
+		this.algorithmName = algorithm.name;
+		this.algorithmOptions = options;
+		this.algorithmButton.setPressed(this.algorithmName !== 'gc');
+	}
+
 	ipeExport(): void {
 		const file = this.world.serialize();
 		const dialogs = document.getElementById('ipeDialog');
@@ -429,6 +724,16 @@ class Constants {
 		fontSize: 12,
 		fill: "white"
 	});
+	static readonly labelStyle = new PIXI.TextStyle({
+		fontFamily: "Fira Sans",
+		fontSize: 12,
+		fill: "#222222"
+	});
+	static readonly annotationStyle = new PIXI.TextStyle({
+		fontFamily: "Fira Sans",
+		fontSize: 24,
+		fill: "#222222"
+	});
 }
 
 export {CubesSimulator, Constants};
@@ -0,0 +1,193 @@
+/**
+ * Dense grid storing, for each cell, the index (in World.cubes) of the cube in
+ * it (if any) and whether it contains an obstacle.
+ *
+ * The cells are stored in typed arrays covering a rectangle of the plane,
+ * which grows (by doubling its width and/or height) whenever something is
+ * stored outside of it; coordinates may be negative. Reading a cell never
+ * allocates: cells outside of the rectangle are simply empty.
+ *
+ * The grid also maintains a Zobrist-style hash of the set of cells that
+ * contain a cube: the XOR of a pseudo-random 64-bit key for each such cell,
+ * which is updated in O(1) time whenever a cell gets filled or emptied. The
+ * keys are computed from the coordinates (instead of being stored in a table),
+ * so that they do not depend on the rectangle.
+ */
+class Grid {
+
+	// the rectangle covered by the arrays
+	private minX = 0;
+	private minY = 0;
+	private width = 0;
+	private height = 0;
+
+	// cube index + 1 for each cell (so that 0 means empty), column by column
+	private cubeIndices = new Int32Array(0);
+	private obstacles = new Uint8Array(0);
+
+	// the two 32-bit halves of the hash
+	private hashLow = 0;
+	private hashHigh = 0;
+
+	/**
+	 * Returns the index of the cube at (x, y), or null if that cell is empty.
+	 */
+	getCubeIndex(x: number, y: number): number | null {
+		const index = this.indexOf(x, y);
+		if (index === -1 || this.cubeIndices[index] === 0) {
+			return null;
+		}
+		return this.cubeIndices[index] - 1;
+	}
+
+	/**
+	 * Stores the index of the cube at (x, y), or clears the cell if the index
+	 * is null.
+	 */
+	setCubeIndex(x: number, y: number, cubeIndex: number | null): void {
+		if (cubeIndex === null) {
+			const index = this.indexOf(x, y);
+			if (index !== -1 && this.cubeIndices[index] !== 0) {
+				this.cubeIndices[index] = 0;
+				this.toggleHash(x, y);
+			}
+			return;
+		}
+		const index = this.reserve(x, y);
+		if (this.cubeIndices[index] === 0) {
+			this.toggleHash(x, y);
+		}
+		this.cubeIndices[index] = cubeIndex + 1;
+	}
+
+	/**
+	 * Returns the hash of the set of cells containing a cube, as 16
+	 * hexadecimal digits. This does not depend on which cube is in which
+	 * cell, nor on the obstacles.
+	 */
+	hash(): string {
+		return Grid.hex(this.hashHigh) + Grid.hex(this.hashLow);
+	}
+
+	/**
+	 * Checks if (x, y) contains an obstacle.
+	 */
+	hasObstacle(x: number, y: number): boolean {
+		const index = this.indexOf(x, y);
+		return index !== -1 && this.obstacles[index] === 1;
+	}
+
+	/**
+	 * Sets whether (x, y) contains an obstacle.
+	 */
+	setObstacle(x: number, y: number, obstacle: boolean): void {
+		if (!obstacle) {
+			const index = this.indexOf(x, y);
+			if (index !== -1) {
+				this.obstacles[index] = 0;
+			}
+			return;
+		}
+		const index = this.reserve(x, y);
+		this.obstacles[index] = 1;
+	}
+
+	/**
+	 * Adds (x, y) to the hash, or removes it if it is in there.
+	 */
+	private toggleHash(x: number, y: number): void {
+		this.hashLow ^= Grid.cellKey(x, y, 0x2545f491);
+		this.hashHigh ^= Grid.cellKey(x, y, 0x9e3779b9);
+	}
+
+	/**
+	 * Returns the 32-bit key of (x, y) for the given seed, by mixing the
+	 * coordinates with the finalizer of MurmurHash3.
+	 */
+	private static cellKey(x: number, y: number, seed: number): number {
+		let h = Math.imul(x, 0x85ebca6b) ^ Math.imul(y, 0xc2b2ae35) ^ seed;
+		h ^= h >>> 16;
+		h = Math.imul(h, 0x85ebca6b);
+		h ^= h >>> 13;
+		h = Math.imul(h, 0xc2b2ae35);
+		h ^= h >>> 16;
+		return h;
+	}
+
+	private static hex(v: number): string {
+		return ('0000000' + (v >>> 0).toString(16)).slice(-8);
+	}
+
+	/**
+	 * Returns the array index of (x, y), or -1 if it is outside of the
+	 * rectangle.
+	 */
+	private indexOf(x: number, y: number): number {
+		const dx = x - this.minX;
+		const dy = y - this.minY;
+		if (dx < 0 || dy < 0 || dx >= this.width || dy >= this.height) {
+			return -1;
+		}
+		return dx * this.height + dy;
+	}
+
+	/**
+	 * Returns the array index of (x, y), first growing the rectangle if
+	 * necessary.
+	 */
+	private reserve(x: number, y: number): number {
+		if (this.indexOf(x, y) === -1) {
+			this.grow(x, y);
+		}
+		return this.indexOf(x, y);
+	}
+
+	/**
+	 * Grows the rectangle such that it contains (x, y).
+	 */
+	private grow(x: number, y: number): void {
+		let minX: number, minY: number, width: number, height: number;
+		if (this.width === 0) {
+			// start with a small rectangle around the first cell
+			[minX, minY, width, height] = [x - 4, y - 4, 8, 8];
+		} else {
+			[minX, width] = Grid.growRange(this.minX, this.width, x);
+			[minY, height] = Grid.growRange(this.minY, this.height, y);
+		}
+
+		const cubeIndices = new Int32Array(width * height);
+		const obstacles = new Uint8Array(width * height);
+		for (let dx = 0; dx < this.width; dx++) {
+			const from = dx * this.height;
+			const to = (this.minX + dx - minX) * height + (this.minY - minY);
+			cubeIndices.set(
+					this.cubeIndices.subarray(from, from + this.height), to);
+			obstacles.set(this.obstacles.subarray(from, from + this.height), to);
+		}
+
+		this.minX = minX;
+		this.minY = minY;
+		this.width = width;
+		this.height = height;
+		this.cubeIndices = cubeIndices;
+		this.obstacles = obstacles;
+	}
+
+	/**
+	 * Given a range [min, min + size), returns a range that contains v as
+	 * well, by doubling the size (as often as needed) on the side of v.
+	 */
+	private static growRange(min: number, size: number, v: number):
+			[number, number] {
+		while (v < min) {
+			min -= size;
+			size *= 2;
+		}
+		while (v >= min + size) {
+			size *= 2;
+		}
+		return [min, size];
+	}
+}
+
+export {Grid};
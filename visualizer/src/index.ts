@@ -45,8 +45,6 @@ declare global {
 		min(): number;
 		max(): number;
 	}
-	function printStep(text: string): void;
-	function printMiniStep(text: string): void;
 }
 
 Array.prototype.min = function<T extends number>(): number {
@@ -0,0 +1,214 @@
+import {World} from './world';
+
+/**
+ * A single move, given as the cell we're moving from and the cell we're
+ * moving towards.
+ */
+type MoveStep = [[number, number], [number, number]];
+
+/**
+ * Packs a valid sequence of moves into parallel rounds, in which all moves
+ * are executed at once. The moves of a round are valid when executed one by
+ * one in any order (so in particular, when executed simultaneously), which is
+ * guaranteed by two conditions:
+ *
+ *  * Moves in the same round do not interfere locally: no move starts or ends
+ *    within the range of the move model (see MoveModel.range) around the
+ *    source of another move. This contains all cells that determine whether
+ *    a move is valid (for sliding squares, the 3×3 block with the target, the
+ *    pivot and the supporting cells), so no move changes whether another one
+ *    is valid (apart from connectivity). In a model with non-local moves,
+ *    every round therefore has a single move.
+ *
+ *  * The squares that do not move in the round (together with the obstacles,
+ *    if they count toward connectivity) are connected, and every moving square
+ *    is adjacent to one of them both before and after its move. Then the
+ *    configuration is connected after every subset of the moves.
+ *
+ * The scheduler goes through the moves in order, and puts every move in the
+ * earliest round (at most `window` rounds back) after the last round with a
+ * move it interferes with, such that the conditions still hold for that round
+ * and for the rounds after it (which now see the square at its target). If
+ * there is no such round, the move gets a new round. This keeps the order of
+ * the moves that interfere with each other, so the moves stay valid, and the
+ * final configuration is that of the sequence.
+ */
+class Scheduler {
+
+	/**
+	 * Maximum number of rounds a move is moved back.
+	 */
+	window = 20;
+
+	/**
+	 * @param world The world to schedule moves for, in the starting
+	 * configuration. The moves are executed on it, so afterwards it is in the
+	 * final configuration.
+	 */
+	constructor(public world: World) {}
+
+	/**
+	 * Returns the rounds of the given valid move sequence, as the indices of
+	 * the moves in each round (in increasing order).
+	 */
+	schedule(moves: MoveStep[]): number[][] {
+		let rounds: MoveStep[][] = [];
+		let indices: number[][] = [];
+		moves.forEach((move, i) => {
+			let earliest = Math.max(rounds.length - this.window, 0);
+			for (let r = rounds.length - 1; r >= earliest; r--) {
+				if (rounds[r].some((other) => this.interfere(move, other))) {
+					earliest = r + 1;
+					break;
+				}
+			}
+			const round = this.place(rounds, move, earliest);
+			if (round === rounds.length) {
+				rounds.push([]);
+				indices.push([]);
+			}
+			rounds[round].push(move);
+			indices[round].push(i);
+			this.execute([move]);
+		});
+		return indices;
+	}
+
+	/**
+	 * Returns the earliest round from `earliest` on in which the move can be
+	 * put, or rounds.length if there is none. The world has to be in the
+	 * configuration after all rounds, and is left in that configuration.
+	 */
+	private place(rounds: MoveStep[][], move: MoveStep, earliest: number):
+			number {
+		for (let r = rounds.length - 1; r >= earliest; r--) {
+			this.undo(rounds[r]);
+		}
+		let r = earliest;
+		while (r < rounds.length) {
+			const conflict = this.findConflict(rounds, move, r);
+			if (conflict === null) {
+				break;
+			}
+			// if a later round conflicts, it does so as well when the move is
+			// put in any round before it, so we can skip those
+			for (const next = Math.max(conflict, r + 1); r < next; r++) {
+				this.execute(rounds[r]);
+			}
+		}
+		for (let q = r; q < rounds.length; q++) {
+			this.execute(rounds[q]);
+		}
+		return r;
+	}
+
+	/**
+	 * Returns the first round that would not be safe anymore if the move were
+	 * put in round r, or null if there is none. The world has to be in the
+	 * configuration before round r (which is restored afterwards).
+	 */
+	private findConflict(rounds: MoveStep[][], move: MoveStep, r: number):
+			number | null {
+		if (!this.isSafe(rounds[r].concat([move]))) {
+			return r;
+		}
+		this.execute([move]);
+		let conflict: number | null = null;
+		let q = r;
+		while (q + 1 < rounds.length) {
+			this.execute(rounds[q]);
+			q++;
+			if (!this.isSafe(rounds[q])) {
+				conflict = q;
+				break;
+			}
+		}
+		for (q--; q >= r; q--) {
+			this.undo(rounds[q]);
+		}
+		this.undo([move]);
+		return conflict;
+	}
+
+	/**
+	 * Checks the connectivity condition (see the class comment) for the given
+	 * round, in the current configuration. The moves are assumed not to
+	 * interfere.
+	 */
+	private isSafe(round: MoveStep[]): boolean {
+		const world = this.world;
+		const viaObstacles = world.obstaclesConnect;
+		const moving = new Set(round.map(([from, ]) => world.getCubeIndex(from)));
+		const isStatic = (p: [number, number]) => {
+			const id = world.getCubeIndex(p);
+			return id !== null ? !moving.has(id) :
+					viaObstacles && world.hasObstacle(p);
+		};
+		const neighbors = ([x, y]: [number, number]): [number, number][] =>
+				[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+
+		for (const [from, to] of round) {
+			if (!neighbors(from).some(isStatic) ||
+					!neighbors(to).some(isStatic)) {
+				return false;
+			}
+		}
+
+		// do BFS over the static cells from a static cube
+		const start = world.cubes.find((cube, id) => !moving.has(id));
+		if (!start) {
+			return false;
+		}
+		let seen = new Uint8Array(world.cubes.length);
+		let seenObstacles = new Set<string>();
+		let seenCount = 0;
+		let queue: [number, number][] = [start.p];
+		while (queue.length !== 0) {
+			const p = queue.pop()!;
+			const id = world.getCubeIndex(p);
+			if (id === null) {
+				if (seenObstacles.has(p[0] + "," + p[1])) {
+					continue;
+				}
+				seenObstacles.add(p[0] + "," + p[1]);
+			} else {
+				if (seen[id]) {
+					continue;
+				}
+				seen[id] = 1;
+				seenCount++;
+			}
+			for (const n of neighbors(p)) {
+				if (isStatic(n)) {
+					queue.push(n);
+				}
+			}
+		}
+		return seenCount === world.cubes.length - round.length;
+	}
+
+	private execute(round: MoveStep[]): void {
+		for (const [from, to] of round) {
+			this.world.moveCubeUnmarked(from, to);
+		}
+	}
+
+	private undo(round: MoveStep[]): void {
+		for (const [from, to] of round) {
+			this.world.moveCubeUnmarked(to, from);
+		}
+	}
+
+	/**
+	 * Checks if two moves interfere: if one of them starts or ends within the
+	 * range of the move model around the source of the other.
+	 */
+	private interfere(a: MoveStep, b: MoveStep): boolean {
+		const range = this.world.model.range;
+		const near = (p: [number, number], q: [number, number]) =>
+				Math.abs(p[0] - q[0]) <= range && Math.abs(p[1] - q[1]) <= range;
+		return near(a[0], b[0]) || near(a[0], b[1]) || near(b[0], a[1]);
+	}
+}
+
+export {MoveStep, Scheduler};
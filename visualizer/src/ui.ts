@@ -34,6 +34,7 @@ class Button extends Component {
 
 	private enabled: boolean = true;
 	private pressed: boolean = false;
+	private mirrored: boolean = false;
 
 	private balloon = new PIXI.Container();
 	private hovered: boolean = false;
@@ -90,6 +91,10 @@ class Button extends Component {
 				resources['icons/' + this.icon + '.png'].texture);
 		icon.width = Button.BUTTON_SIZE;
 		icon.height = Button.BUTTON_SIZE;
+		if (this.mirrored) {
+			icon.scale.x = -icon.scale.x;
+			icon.x = Button.BUTTON_SIZE;
+		}
 		if (!this.enabled) {
 			icon.alpha = 0.3;
 		}
@@ -180,6 +185,15 @@ class Button extends Component {
 		this.rebuildPixi();
 	}
 
+	/**
+	 * Sets whether the icon is mirrored horizontally, so that for example the
+	 * step icon can be used for stepping backwards as well.
+	 */
+	setMirrored(mirrored: boolean): void {
+		this.mirrored = mirrored;
+		this.rebuildPixi();
+	}
+
 	togglePressed(): void {
 		this.setPressed(!this.pressed);
 	}
@@ -299,5 +313,163 @@ class Toolbar extends Component {
 	}
 }
 
-export {Button, Separator, Toolbar};
+/**
+ * A marker on a timeline, such as the start of a phase of an algorithm.
+ */
+type TimelineMarker = {
+	step: number;
+	label: string;
+};
+
+/**
+ * A slider showing the progress through a sequence of moves, with markers at
+ * given steps. Clicking or dragging on the slider calls the seek handler with
+ * the step under the mouse.
+ */
+class Timeline extends Component {
+	static readonly WIDTH = 600;
+	static readonly HEIGHT = 48;
+	static readonly X_MARGIN = 22;
+	static readonly TEXT_WIDTH = 80;
+	static readonly TRACK_Y = 32;
+
+	seekHandler: ((step: number) => void) | null = null;
+
+	private length = 0;
+	private value = 0;
+	private markers: TimelineMarker[] = [];
+	private dragging = false;
+
+	private knob = new PIXI.Graphics();
+	private valueText = new PIXI.Text('', Constants.labelStyle);
+
+	rebuildPixi(): void {
+		this.pixi.removeChildren();
+
+		const shadow = new PIXI.Graphics();
+		shadow.beginFill(0x000000);
+		shadow.drawRoundedRect(0, 2, Timeline.WIDTH, Timeline.HEIGHT,
+			Timeline.HEIGHT / 2);
+		shadow.endFill();
+		shadow.alpha = 0.3;
+		shadow.filters = [new PIXI.filters.BlurFilter(10)];
+
+		const background = new PIXI.Graphics();
+		background.beginFill(0xffffff);
+		background.drawRoundedRect(0, 0, Timeline.WIDTH, Timeline.HEIGHT,
+			Timeline.HEIGHT / 2);
+		background.endFill();
+		background.interactive = true;
+		background.on('pointerdown', (e: PIXI.interaction.InteractionEvent) => {
+			this.dragging = true;
+			this.seekTo(e);
+		});
+		background.on('pointermove', (e: PIXI.interaction.InteractionEvent) => {
+			if (this.dragging) {
+				this.seekTo(e);
+			}
+		});
+		background.on('pointerup', () => {
+			this.dragging = false;
+		});
+		background.on('pointerupoutside', () => {
+			this.dragging = false;
+		});
+		this.pixi.addChild(shadow, background);
+
+		const track = new PIXI.Graphics();
+		track.lineStyle(4, 0xdddddd);
+		track.moveTo(this.xOf(0), Timeline.TRACK_Y);
+		track.lineTo(this.xOf(this.length), Timeline.TRACK_Y);
+		this.pixi.addChild(track);
+
+		for (const marker of this.markers) {
+			const x = this.xOf(marker.step);
+			const tick = new PIXI.Graphics();
+			tick.lineStyle(2, 0x0066CB);
+			tick.moveTo(x, Timeline.TRACK_Y - 10);
+			tick.lineTo(x, Timeline.TRACK_Y + 10);
+			this.pixi.addChild(tick);
+
+			const label = new PIXI.Text(marker.label, Constants.labelStyle);
+			label.x = x + 3;
+			label.y = 4;
+			this.pixi.addChild(label);
+		}
+
+		this.knob = new PIXI.Graphics();
+		this.knob.beginFill(0x222222);
+		this.knob.drawCircle(0, 0, 8);
+		this.knob.endFill();
+		this.knob.y = Timeline.TRACK_Y;
+		this.pixi.addChild(this.knob);
+
+		this.valueText = new PIXI.Text('', Constants.labelStyle);
+		this.valueText.anchor.set(1, 0.5);
+		this.valueText.x = Timeline.WIDTH - Timeline.X_MARGIN;
+		this.valueText.y = Timeline.TRACK_Y;
+		this.pixi.addChild(this.valueText);
+
+		this.setValue(this.value);
+	}
+
+	getWidth(): number {
+		return Timeline.WIDTH;
+	}
+
+	getHeight(): number {
+		return Timeline.HEIGHT;
+	}
+
+	/**
+	 * Sets the number of steps in the timeline and the markers to show.
+	 */
+	setLength(length: number, markers: TimelineMarker[]): void {
+		this.length = length;
+		this.markers = markers;
+		this.value = Math.min(this.value, length);
+		this.rebuildPixi();
+	}
+
+	/**
+	 * Moves the knob to the given (possibly fractional) step.
+	 */
+	setValue(value: number): void {
+		this.value = value;
+		this.knob.x = this.xOf(value);
+		const text = `${Math.floor(value)} / ${this.length}`;
+		if (this.valueText.text !== text) {
+			this.valueText.text = text;
+		}
+	}
+
+	onSeek(handler: (step: number) => void): void {
+		this.seekHandler = handler;
+	}
+
+	/**
+	 * Returns the x-coordinate of the given step on the track.
+	 */
+	private xOf(step: number): number {
+		const trackWidth = Timeline.WIDTH - 2 * Timeline.X_MARGIN -
+			Timeline.TEXT_WIDTH;
+		if (this.length === 0) {
+			return Timeline.X_MARGIN;
+		}
+		return Timeline.X_MARGIN + step / this.length * trackWidth;
+	}
+
+	private seekTo(e: PIXI.interaction.InteractionEvent): void {
+		const x = e.data.getLocalPosition(this.pixi).x;
+		const trackWidth = Timeline.WIDTH - 2 * Timeline.X_MARGIN -
+			Timeline.TEXT_WIDTH;
+		let step = Math.round((x - Timeline.X_MARGIN) / trackWidth * this.length);
+		step = Math.max(0, Math.min(this.length, step));
+		if (this.seekHandler) {
+			this.seekHandler(step);
+		}
+	}
+}
+
+export {Button, Separator, Toolbar, TimelineMarker, Timeline};
 
@@ -0,0 +1,86 @@
+import {World} from './world';
+import {TraceEvent, TraceSink} from './tracer';
+
+/**
+ * Aborts runs that seem not to terminate, by throwing when the run exceeds a
+ * move budget, or when it reaches the same configuration (as determined by
+ * World.hash()) too often. It gets the moves from the world's tracer, so it
+ * has to be installed as (one of the) sinks of world.tracer.
+ *
+ * Both limits are off by default. A configuration being repeated once does
+ * not mean that the run does not terminate: algorithms sometimes move a
+ * square back and forth, and some (such as reconfigure) may pass through the
+ * same configuration several times. But a run that cycles reaches the
+ * configurations on the cycle again and again, so a limit of, say, 3 visits
+ * catches cycles quickly.
+ */
+class Watchdog implements TraceSink {
+
+	/**
+	 * Maximum number of moves.
+	 */
+	maxMoves = Infinity;
+
+	/**
+	 * Maximum number of times the same configuration may be reached.
+	 */
+	maxVisits = Infinity;
+
+	// for each configuration hash, the steps after which it was reached
+	private visits = new Map<string, number[]>();
+
+	// the length of the move history of the world at step 0
+	private historyStart: number;
+
+	constructor(private world: World) {
+		this.visits.set(world.hash(), [0]);
+		this.historyStart = world.getHistoryStep();
+	}
+
+	write(event: TraceEvent): void {
+		if (event.type !== 'move') {
+			return;
+		}
+		if (event.step > this.maxMoves) {
+			throw `Exceeded the budget of ${this.maxMoves} moves`;
+		}
+
+		if (this.maxVisits === Infinity) {
+			return;
+		}
+		const hash = this.world.hash();
+		let steps = this.visits.get(hash);
+		if (steps === undefined) {
+			this.visits.set(hash, [event.step]);
+			return;
+		}
+		steps.push(event.step);
+		if (steps.length > this.maxVisits) {
+			const start = steps[steps.length - 2];
+			throw `Reached the same configuration ` +
+					`${steps.length} times (after steps ${steps.join(', ')}), ` +
+					`cycle of length ${event.step - start}: ` +
+					this.describeMoves(start, event.step);
+		}
+	}
+
+	close(): void {}
+
+	/**
+	 * Returns the moves after step start up to and including step end, as
+	 * text (abbreviated if there are many of them).
+	 */
+	private describeMoves(start: number, end: number): string {
+		const shown = 20;
+		const moves = this.world.getHistory()
+			.slice(this.historyStart + start,
+					this.historyStart + Math.min(end, start + shown))
+			.map((move) => move.toString());
+		if (end - start > shown) {
+			moves.push(`and ${end - start - shown} more`);
+		}
+		return moves.join(', ');
+	}
+}
+
+export {Watchdog};
@@ -2,13 +2,27 @@ import * as PIXI from 'pixi.js';
 import {Viewport} from 'pixi-viewport';
 
 import {Cube, Color, ComponentStatus} from './cube';
-
-type WorldCell = {
-	cubeId: number | null;
-};
+import {Connectivity} from './connectivity';
+import {BlockCutTree} from './block-cut-tree';
+import {Grid} from './grid';
+import {Annotation} from './annotation';
+import {Tracer} from './tracer';
+import {Constants} from './cubes-simulator';
+import {Transform} from './geometry';
+import {MoveModel, findMoveModel} from './move-model';
 
 type Algorithm = Generator<Move, void, undefined>;
 
+/**
+ * A move in the move history of a world, together with the index of the cube
+ * it moved and the annotations of the algorithm at the time of the move.
+ */
+type HistoryEntry = {
+	move: Move;
+	cubeIndex: number;
+	annotations: Annotation[];
+};
+
 enum MoveDirection {
 	N = "N",
 	E = "E",
@@ -21,14 +35,21 @@ enum MoveDirection {
 	SE = "SE",
 	SW = "SW",
 	WS = "WS",
-	WN = "WN"
+	WN = "WN",
+	T = "T"
 }
 
 /**
- * Representation of a single cube move (either slide or corner).
+ * Representation of a single cube move (either slide or corner, or a teleport
+ * to an arbitrary cell in move models that allow that, see MoveModel).
  */
 class Move {
-	constructor(public world: World, public position: [number, number], public direction: MoveDirection) {
+	/**
+	 * @param target The cell we're moving towards, for teleports (direction
+	 * T); for other moves, this follows from the direction.
+	 */
+	constructor(public world: World, public position: [number, number], public direction: MoveDirection,
+			public target: [number, number] | null = null) {
 	}
 
 	/**
@@ -63,39 +84,44 @@ class Move {
 	 * Returns the coordinate of the cell we're moving towards.
 	 */
 	targetPosition(): [number, number] {
+		if (this.target !== null) {
+			return [this.target[0], this.target[1]];
+		}
 		return Move.targetPositionFromFields(this.position, this.direction);
 	}
 
 	/**
-	 * Checks if this move is valid, but ignores the connectivity requirement
-	 * (i.e., still returns true if this move disconnects the configuration
-	 * but otherwise is valid).
+	 * Returns the move that undoes this move, that is, the move that brings
+	 * the cube from the target position back to the source position.
 	 *
-	 * This avoids the need to do a BFS to check connectivity.
+	 * For a corner move, this traverses the corner in the opposite order (for
+	 * example, the inverse of NW is ES), so it pivots around the same cube.
 	 */
-	isValidIgnoreConnectivity(): boolean {
-		if (this.world.getCube(this.targetPosition())) {
-			return false;
+	inverse(): Move {
+		if (this.target !== null) {
+			return new Move(this.world, this.target, this.direction,
+					this.position);
 		}
-
-		let has = this.world.hasNeighbors(this.position);
-
-		switch (this.direction) {
-			case "N":
-				return (has['W'] && has['NW']) || (has['E'] && has['NE']);
-			case "E":
-				return (has['N'] && has['NE']) || (has['S'] && has['SE']);
-			case "S":
-				return (has['W'] && has['SW']) || (has['E'] && has['SE']);
-			case "W":
-				return (has['N'] && has['NW']) || (has['S'] && has['SW']);
-
-			default:
-				// for corner moves, need to ensure that there is no cube in
-				// the first direction (which would be in our way) and there
-				// is a cube in the second direction (that we can pivot along)
-				return !has[this.direction[0]] && has[this.direction[1]];
+		const opposite: {[key: string]: string} = {
+			'N': 'S', 'E': 'W', 'S': 'N', 'W': 'E'
+		};
+		let direction = '';
+		for (let i = this.direction.length - 1; i >= 0; i--) {
+			direction += opposite[this.direction[i]];
 		}
+		return new Move(this.world, this.targetPosition(),
+				<MoveDirection> direction);
+	}
+
+	/**
+	 * Checks if this move is valid in the move model of the world, but ignores
+	 * the connectivity requirement (i.e., still returns true if this move
+	 * disconnects the configuration but otherwise is valid).
+	 *
+	 * This avoids the need to do a BFS to check connectivity.
+	 */
+	isValidIgnoreConnectivity(): boolean {
+		return this.world.model.isValidIgnoreConnectivity(this);
 	}
 
 	/**
@@ -108,6 +134,13 @@ class Move {
 		if (!this.world.isConnected(this.position)) {
 			return false;
 		}
+		// if the move used an obstacle for support, the cube may not be
+		// attached to the configuration anymore after the move
+		if (this.world.obstacles.length &&
+				!this.world.isConnectedAfterMove(this.position,
+					this.targetPosition())) {
+			return false;
+		}
 		return true;
 	}
 	
@@ -142,6 +175,10 @@ class Move {
 		this.world.moveCube(this.position, this.targetPosition());
 	}
 
+	executeUnmarked(): void {
+		this.world.moveCubeUnmarked(this.position, this.targetPosition());
+	}
+
 	toString(): string {
 		const from = this.position;
 		const to = this.targetPosition();
@@ -211,31 +248,76 @@ class ComponentTree {
 
 /**
  * Collection of cubes on the grid.
+ *
+ * Every cube gets an ID when it is added, which stays the same for the life of
+ * the cube. Separately, the cubes array is kept dense: removing a cube moves
+ * the last cube into its index, so the index of a cube may change (but its ID
+ * does not).
  */
 class World {
 
-	world: WorldCell[][] = [];
-
 	viewport = new Viewport();
 	pixi = new PIXI.Container();
 	backgroundPixi = new PIXI.Container();
 	gridPixi = new PIXI.Container();
+	obstaclePixi = new PIXI.Graphics();
 	treePixi = new PIXI.Graphics();
+	annotationPixi = new PIXI.Container();
 	grid: PIXI.Mesh;
 
 	cubes: Cube[] = [];
+	obstacles: [number, number][] = [];
+
+	/**
+	 * Whether obstacles count toward connectivity, that is, whether two cubes
+	 * that are both adjacent to the same (group of) obstacles are considered
+	 * connected.
+	 */
+	obstaclesConnect = false;
+
+	/**
+	 * The rules for which moves the cubes can make.
+	 */
+	model: MoveModel = findMoveModel('sliding');
 
 	currentMove: Move | null = null;
 
+	// moves that are animated at once, in addition to the current move (the
+	// moves of a round of a parallel schedule, see Scheduler)
+	currentRound: Move[] = [];
+
+	// the executed moves, of which the first historyStep ones are currently
+	// applied (the others have been undone and can be redone)
+	private history: HistoryEntry[] = [];
+	private historyStep = 0;
+
+	// the annotations that are attached to the moves executed from now on
+	private annotations: Annotation[] = [];
+
+	/**
+	 * Receives what the algorithms running on this world do: their steps, and
+	 * the moves executed with executeMove(). By default, this discards
+	 * everything.
+	 */
+	tracer = new Tracer();
+
+	private cells = new Grid();
+	private connectivity = new Connectivity(this);
+
+	// the ID for the next cube that gets added
+	private nextCubeId = 0;
+
 	/**
 	 * Creates the world and initializes its PIXI elements (viewport and grid).
 	 */
 	constructor() {
 		this.viewport.addChild(this.gridPixi);
+		this.viewport.addChild(this.obstaclePixi);
 		this.viewport.addChild(this.backgroundPixi);
 
 		this.backgroundPixi.filters = [new PIXI.filters.AlphaFilter(0.3)];
 		this.viewport.addChild(this.pixi);
+		this.viewport.addChild(this.annotationPixi);
 
 		this.treePixi.visible = false;
 		this.viewport.addChild(this.treePixi);
@@ -298,39 +380,31 @@ class World {
 		this.gridPixi.addChild(this.grid);
 	}
 
-	private getColumn(x: number): WorldCell[] {
-		if (!this.world[x]) {
-			this.world[x] = [];
-		}
-		return this.world[x];
-	}
-
-	private getCell([x, y]: [number, number]): WorldCell {
-		let column = this.getColumn(x);
-		if (!column[y]) {
-			column[y] = {
-				cubeId: null
-			};
-		}
-		return column[y];
-	}
-
 	/**
 	 * Returns the ID of the cube at the given location, or null if that cell is empty.
 	 */
 	getCubeId(p: [number, number]): number | null {
-		return this.getCell(p).cubeId;
+		const cube = this.getCube(p);
+		return cube === null ? null : cube.id;
+	}
+
+	/**
+	 * Returns the index (in the cubes array) of the cube at the given
+	 * location, or null if that cell is empty.
+	 */
+	getCubeIndex(p: [number, number]): number | null {
+		return this.cells.getCubeIndex(p[0], p[1]);
 	}
 
 	/**
 	 * Returns the cube at the given location, or null if that cell is empty.
 	 */
 	getCube(p: [number, number]): Cube | null {
-		const id = this.getCubeId(p);
-		if (id === null) {
+		const index = this.getCubeIndex(p);
+		if (index === null) {
 			return null;
 		}
-		return this.cubes[id];
+		return this.cubes[index];
 	}
 
 	/**
@@ -340,12 +414,57 @@ class World {
 		return !!this.getCube(p);
 	}
 
+	/**
+	 * Checks if an obstacle exists at the given location.
+	 */
+	hasObstacle(p: [number, number]): boolean {
+		return this.cells.hasObstacle(p[0], p[1]);
+	}
+
+	/**
+	 * Checks if the given location is occupied by either a cube or an
+	 * obstacle.
+	 */
+	isBlocked(p: [number, number]): boolean {
+		return this.hasCube(p) || this.hasObstacle(p);
+	}
+
+	/**
+	 * Adds an obstacle at the given location; throws if that location is
+	 * already occupied.
+	 */
+	addObstacle(p: [number, number]): void {
+		if (this.isBlocked(p)) {
+			throw `Tried to insert obstacle on top of another object ` +
+					`at (${p[0]}, ${p[1]})`;
+		}
+		this.cells.setObstacle(p[0], p[1], true);
+		this.obstacles.push([p[0], p[1]]);
+		this.updateObstaclePixi();
+	}
+
+	/**
+	 * Removes the obstacle at the given location; throws if no obstacle exists
+	 * there.
+	 */
+	removeObstacle(p: [number, number]): void {
+		if (!this.hasObstacle(p)) {
+			throw `Tried to remove non-existing obstacle ` +
+					`at (${p[0]}, ${p[1]})`;
+		}
+		this.cells.setObstacle(p[0], p[1], false);
+		this.obstacles = this.obstacles.filter(
+				(o) => o[0] !== p[0] || o[1] !== p[1]);
+		this.updateObstaclePixi();
+	}
+
 	/**
 	 * Adds a new cube of the given color at the given location; throws if a
 	 * cube already exists at that location.
 	 */
 	addCube(p: [number, number], color: Color): Cube {
 		const cube = this.addCubeUnmarked(p, color);
+		this.clearHistory();
 		this.markComponents();
 		return cube;
 	}
@@ -358,11 +477,16 @@ class World {
 			throw `Tried to insert cube on top of another cube ` +
 					`at (${p[0]}, ${p[1]})`;
 		}
-		const cube = new Cube(this, p, color);
-		this.getCell(p).cubeId = this.cubes.length;
+		if (this.hasObstacle(p)) {
+			throw `Tried to insert cube on top of an obstacle ` +
+					`at (${p[0]}, ${p[1]})`;
+		}
+		const cube = new Cube(this, this.nextCubeId++, p, color);
+		this.cells.setCubeIndex(p[0], p[1], this.cubes.length);
 		this.cubes.push(cube);
 		this.pixi.addChild(cube.pixi);
 		this.backgroundPixi.addChild(cube.backgroundPixi);
+		this.connectivity.invalidate();
 		return cube;
 	}
 
@@ -390,11 +514,17 @@ class World {
 					`at (${to[0]}, ${to[1]})`;
 		}
 
-		const id = this.getCubeId(from)!;
-		this.getCell(from).cubeId = null;
-		this.getCell(to).cubeId = id;
-		this.cubes[id].p = [to[0], to[1]];
-		this.cubes[id].updatePosition(0, 0);
+		if (this.hasObstacle(to)) {
+			throw `Tried to move cube on top of an obstacle ` +
+					`at (${to[0]}, ${to[1]})`;
+		}
+
+		const index = this.getCubeIndex(from)!;
+		this.cells.setCubeIndex(from[0], from[1], null);
+		this.cells.setCubeIndex(to[0], to[1], index);
+		this.cubes[index].p = [to[0], to[1]];
+		this.cubes[index].updatePosition(0, 0);
+		this.connectivity.moved(from, to);
 	}
 
 	/**
@@ -402,6 +532,7 @@ class World {
 	 */
 	removeCube(p: [number, number]): void {
 		this.removeCubeUnmarked(p);
+		this.clearHistory();
 		this.markComponents();
 	}
 
@@ -413,39 +544,68 @@ class World {
 			throw `Tried to remove non-existing cube ` +
 					`at (${p[0]}, ${p[1]})`;
 		}
-		const cube = this.getCube(p)!;
-		this.getCell(p).cubeId = null;
+		const cube = this.takeOut(p);
 		this.pixi.removeChild(cube.pixi);
 		this.backgroundPixi.removeChild(cube.backgroundPixi);
-		this.cubes = this.cubes.filter((b) => b !== cube);
-		// because removing the cube from this.cubes changes the indices, we
-		// need to update the cubeIds as well
-		for (let i = 0; i < this.cubes.length; i++) {
-			this.getCell(this.cubes[i].p).cubeId = i;
+		this.connectivity.invalidate();
+	}
+
+	/**
+	 * Removes the cube at the given location from the cubes array and the
+	 * grid, in O(1) time: the last cube moves into its index (keeping its ID).
+	 */
+	private takeOut(p: [number, number]): Cube {
+		const index = this.getCubeIndex(p)!;
+		const cube = this.cubes[index];
+		this.cells.setCubeIndex(p[0], p[1], null);
+		const last = this.cubes.pop()!;
+		if (last !== cube) {
+			this.cubes[index] = last;
+			this.cells.setCubeIndex(last.p[0], last.p[1], index);
 		}
+		return cube;
+	}
+
+	/**
+	 * Undoes takeOut(): puts the cube back at the given index, and moves the
+	 * cube that took over that index back to the end.
+	 */
+	private putBack(cube: Cube, index: number): void {
+		if (index < this.cubes.length) {
+			const other = this.cubes[index];
+			this.cells.setCubeIndex(other.p[0], other.p[1], this.cubes.length);
+			this.cubes.push(other);
+		}
+		this.cubes[index] = cube;
+		this.cells.setCubeIndex(cube.p[0], cube.p[1], index);
 	}
 
 	/**
 	 * Returns an object with keys 'N', 'NE', 'E', etc. with booleans
 	 * indicating if the given cell has neighboring cubes in that direction.
+	 * If includeObstacles is set, neighboring obstacles are reported as well.
 	 */
-	hasNeighbors(p: [number, number]): {[key: string]: boolean} {
+	hasNeighbors(p: [number, number], includeObstacles = false):
+			{[key: string]: boolean} {
 		const [x, y] = p;
-		let has: {[key: string]: boolean} = {};
-		has['N'] = this.hasCube([x, y + 1]);
-		has['NE'] = this.hasCube([x + 1, y + 1]);
-		has['E'] = this.hasCube([x + 1, y]);
-		has['SE'] = this.hasCube([x + 1, y - 1]);
-		has['S'] = this.hasCube([x, y - 1]);
-		has['SW'] = this.hasCube([x - 1, y - 1]);
-		has['W'] = this.hasCube([x - 1, y]);
-		has['NW'] = this.hasCube([x - 1, y + 1]);
-		return has;
+		const has = includeObstacles ?
+				((p: [number, number]) => this.isBlocked(p)) :
+				((p: [number, number]) => this.hasCube(p));
+		let result: {[key: string]: boolean} = {};
+		result['N'] = has([x, y + 1]);
+		result['NE'] = has([x + 1, y + 1]);
+		result['E'] = has([x + 1, y]);
+		result['SE'] = has([x + 1, y - 1]);
+		result['S'] = has([x, y - 1]);
+		result['SW'] = has([x - 1, y - 1]);
+		result['W'] = has([x - 1, y]);
+		result['NW'] = has([x - 1, y + 1]);
+		return result;
 	}
 
 	/**
 	 * Given a cube, returns a list of all the moves starting at that cube that
-	 * are valid.
+	 * are valid (in the move model of the world).
 	 *
 	 * If the configuration would be disconnected without the given cube, no
 	 * move is valid, so an empty array is returned.
@@ -457,11 +617,14 @@ class World {
 			return [];
 		}
 
-		for (const direction of Object.keys(MoveDirection)) {
-			const m = new Move(this, p, MoveDirection[<MoveDirection> direction]);
+		for (const m of this.model.candidateMoves(this, p)) {
 			if (m.isValidIgnoreConnectivity()) {
 				// already checked connectivity before (yay, efficiency!)
-				moves.push(m);
+				// (except if obstacles may have been used for support)
+				if (!this.obstacles.length ||
+						this.isConnectedAfterMove(p, m.targetPosition())) {
+					moves.push(m);
+				}
 			}
 		}
 
@@ -485,22 +648,39 @@ class World {
 	/**
 	 * Executes the shortest move path between the given cubes.
 	 *
-	 * Throws if no move path is possible.
+	 * Throws if no move path is possible (use findMovePath() to check this
+	 * without throwing).
 	 *
 	 * @param from The source coordinate, containing the cube we want to move.
 	 * @param to The target coordinate, which should be an empty cell.
 	 */
 	*shortestMovePath(from: [number, number], to: [number, number]): Algorithm {
-		
+		const path = this.findMovePath(from, to);
+		if (path === null) {
+			throw "No move path possible from " + from + " to " + to;
+		}
+		yield* path;
+	}
+
+	/**
+	 * Returns the shortest move path between the given cubes, or null if no
+	 * move path is possible.
+	 *
+	 * @param from The source coordinate, containing the cube we want to move.
+	 * @param to The target coordinate, which should be an empty cell.
+	 */
+	findMovePath(from: [number, number], to: [number, number]): Move[] | null {
+
 		// temporarily remove the origin cube from the configuration, to avoid
 		// invalid moves in the resulting move path (because we could slide
 		// along the origin cube itself)
-		const cube = this.getCube(from);
-		if (cube === null) {
+		const index = this.getCubeIndex(from);
+		if (index === null) {
 			throw "Cannot compute move path from non-existing cube" +
 				` (${from[0]}, ${from[1]})`;
 		}
-		this.removeCubeUnmarked(from);
+		const cube = this.takeOut(from);
+		this.connectivity.invalidate();
 
 		// do BFS over the move graph
 		let seen: {[key: string]: {'seen': boolean, 'move': Move | null}} = {};
@@ -527,7 +707,9 @@ class World {
 		}
 
 		if (!seen[to[0] + "," + to[1]]) {
-			throw "No move path possible from " + from + " to " + to;
+			this.putBack(cube, index);
+			this.connectivity.invalidate();
+			return null;
 		}
 
 		// reconstruct the path
@@ -540,17 +722,17 @@ class World {
 		}
 
 		// put the origin cube back
-		const newCube = this.addCubeUnmarked(cube.p, cube.color);
-		newCube.componentStatus = cube.componentStatus;
+		this.putBack(cube, index);
+		this.connectivity.invalidate();
 
-		yield* path;
+		return path;
 	}
 
 	nextStep(algorithm: Algorithm, step: number): void {
 
 		// first actually execute the current move
 		if (this.currentMove) {
-			this.currentMove.execute();
+			this.executeMove(this.currentMove);
 		}
 		this.markComponents();
 
@@ -567,6 +749,181 @@ class World {
 		this.currentMove = output.value;
 	}
 
+	/**
+	 * Executes the given move and appends it to the move history. Moves that
+	 * were undone before are discarded, so they cannot be redone anymore.
+	 *
+	 * If marked is false, this does not update the component status of the
+	 * cubes.
+	 */
+	executeMove(move: Move, marked = true): void {
+		const cubeIndex = this.getCubeIndex(move.sourcePosition())!;
+		if (marked) {
+			move.execute();
+		} else {
+			move.executeUnmarked();
+		}
+		this.history.splice(this.historyStep);
+		this.history.push({
+			move: move,
+			cubeIndex: cubeIndex,
+			annotations: this.annotations
+		});
+		this.historyStep++;
+		this.tracer.move(move.sourcePosition(), move.targetPosition());
+	}
+
+	/**
+	 * Returns the moves in the move history, including the ones that have
+	 * been undone.
+	 */
+	getHistory(): Move[] {
+		return this.history.map((entry) => entry.move);
+	}
+
+	/**
+	 * Returns the number of moves in the history that are currently applied.
+	 */
+	getHistoryStep(): number {
+		return this.historyStep;
+	}
+
+	/**
+	 * Forgets the move history and the current annotations. This happens
+	 * automatically when cubes are added or removed, or when the world is
+	 * reset.
+	 */
+	clearHistory(): void {
+		this.history = [];
+		this.historyStep = 0;
+		this.annotations = [];
+	}
+
+	/**
+	 * Adds an annotation, which is attached to every move executed from now
+	 * on, until clearAnnotations() is called. Algorithms use this to record
+	 * what they are doing, such as which square they are gathering.
+	 */
+	annotate(annotation: Annotation): void {
+		// copy, as the old array is shared with the moves in the history
+		this.annotations = this.annotations.concat([annotation]);
+	}
+
+	/**
+	 * Removes the current annotations, so that the moves executed from now on
+	 * have no annotations until annotate() is called again.
+	 */
+	clearAnnotations(): void {
+		this.annotations = [];
+	}
+
+	/**
+	 * Returns the annotations of the move with the given index in the move
+	 * history. For the index just after the last move, returns the current
+	 * annotations, which would be attached to the next move; if an algorithm
+	 * threw, these describe what it was trying to do.
+	 */
+	getAnnotations(index: number): Annotation[] {
+		if (index === this.history.length) {
+			return this.annotations;
+		}
+		this.checkHistoryStep(index);
+		return this.history[index].annotations;
+	}
+
+	/**
+	 * Undoes the last applied move in the history, and returns it (or null
+	 * if no moves are applied).
+	 */
+	undo(): Move | null {
+		if (this.historyStep === 0) {
+			return null;
+		}
+		const move = this.history[this.historyStep - 1].move;
+		this.seek(this.historyStep - 1);
+		return move;
+	}
+
+	/**
+	 * Redoes the first undone move in the history, and returns it (or null
+	 * if no moves were undone).
+	 */
+	redo(): Move | null {
+		if (this.historyStep === this.history.length) {
+			return null;
+		}
+		const move = this.history[this.historyStep].move;
+		this.seek(this.historyStep + 1);
+		return move;
+	}
+
+	/**
+	 * Undoes or redoes moves until the given number of moves in the history
+	 * is applied.
+	 *
+	 * This should not be used while an algorithm is running, as the algorithm
+	 * would not know about the changed configuration; the current move is
+	 * dropped.
+	 */
+	seek(step: number): void {
+		this.checkHistoryStep(step);
+		while (this.historyStep > step) {
+			this.historyStep--;
+			this.history[this.historyStep].move.inverse().executeUnmarked();
+		}
+		while (this.historyStep < step) {
+			this.history[this.historyStep].move.executeUnmarked();
+			this.historyStep++;
+		}
+		this.currentMove = null;
+		this.currentRound = [];
+		this.markComponents();
+	}
+
+	/**
+	 * Reorders the move history: afterwards, the i-th move in the history is
+	 * the order[i]-th move from before. All moves have to be undone, and the
+	 * moves in the new order have to be valid as well (as for the rounds of a
+	 * parallel schedule, see Scheduler).
+	 */
+	reorderHistory(order: number[]): void {
+		if (this.historyStep !== 0) {
+			throw 'Cannot reorder the move history with moves applied';
+		}
+		if (order.length !== this.history.length) {
+			throw `Cannot reorder the move history of ${this.history.length} ` +
+					`moves into ${order.length} moves`;
+		}
+		this.history = order.map((i) => this.history[i]);
+	}
+
+	/**
+	 * Returns the positions of the cubes (in the order of the cubes array)
+	 * after the given number of moves in the history, without changing the
+	 * world.
+	 */
+	snapshot(step: number): [number, number][] {
+		this.checkHistoryStep(step);
+		let positions = this.cubes.map(
+				(cube): [number, number] => [cube.p[0], cube.p[1]]);
+		for (let i = this.historyStep - 1; i >= step; i--) {
+			const [x, y] = this.history[i].move.sourcePosition();
+			positions[this.history[i].cubeIndex] = [x, y];
+		}
+		for (let i = this.historyStep; i < step; i++) {
+			const [x, y] = this.history[i].move.targetPosition();
+			positions[this.history[i].cubeIndex] = [x, y];
+		}
+		return positions;
+	}
+
+	private checkHistoryStep(step: number): void {
+		if (!Number.isInteger(step) || step < 0 || step > this.history.length) {
+			throw `Cannot go to step ${step}, the move history ` +
+					`has ${this.history.length} moves`;
+		}
+	}
+
 	/**
 	 * Finds all parity cubes (1-components with consisting of only a single
 	 * cube) and returns them in order around the boundary of the
@@ -614,18 +971,20 @@ class World {
 	/**
 	 * Checks if the configuration is siphonable.
 	 *
-	 * This is the case if it is a single monotone 2-component containing
-	 * (0, 0), and not containing any gaps.
+	 * This is the case if it is a single monotone 2-component containing its
+	 * downmost-leftmost cube (the origin for doSiphonStep()), and not
+	 * containing any gaps.
 	 *
 	 * TODO check for gaps
 	 */
 	isSiphonable(): boolean {
 
-		// check if we contain the origin
-		if (!this.hasCube([0, 0])) {
+		// find the origin
+		const origin = this.downmostLeftmost();
+		if (!origin) {
 			return false;
 		}
-		let originId = this.getCubeId([0, 0]);
+		let originId = this.getCubeIndex(origin.p);
 
 		// check if the boundary is all part of a 2-component
 		// TODO!!!!
@@ -654,12 +1013,12 @@ class World {
 			seenCount++;
 
 			const topRightNeighbors = [
-				this.getCell([cube.p[0] + 1, cube.p[1]]),
-				this.getCell([cube.p[0], cube.p[1] + 1])
+				this.getCubeIndex([cube.p[0] + 1, cube.p[1]]),
+				this.getCubeIndex([cube.p[0], cube.p[1] + 1])
 			];
 			topRightNeighbors.forEach(function(c) {
-				if (c.cubeId) {
-					queue.push(c.cubeId);
+				if (c !== null) {
+					queue.push(c);
 				}
 			});
 		}
@@ -686,86 +1045,100 @@ class World {
 	}
 
 	/**
-	 * Performs a single siphon step: removes the cube at (0, 1) or (1, 0) and
-	 * performs moves to refill it.
+	 * Performs a single siphon step: removes the cube at (0, 1) or (1, 0)
+	 * relative to the origin and performs moves to refill it.
+	 *
+	 * The origin is the position of the downmost-leftmost cube when siphoning
+	 * started (see isSiphonable()). It has to stay the same during siphoning:
+	 * the removed cubes are put in a line to the left of it, so afterwards it
+	 * is not the downmost-leftmost cube anymore.
 	 */
-	*doSiphonStep(): Algorithm {
-		printStep('Siphoning step');
+	*doSiphonStep(origin: [number, number]): Algorithm {
+		this.tracer.step('Siphoning step');
+		const [ox, oy] = origin;
 
-		if (!this.columnEmpty(2)) {
-			yield* this.doRightSiphonRemoval();
-			yield* this.doSiphonFill(false);
+		if (!this.columnEmpty(ox + 2)) {
+			yield* this.doRightSiphonRemoval(origin);
+			yield* this.doSiphonFill(origin, false);
 
-		} else if (!this.rowEmpty(2)) {
-			yield* this.doTopSiphonRemoval();
-			yield* this.doSiphonFill(true);
+		} else if (!this.rowEmpty(oy + 2)) {
+			yield* this.doTopSiphonRemoval(origin);
+			yield* this.doSiphonFill(origin, true);
 
 		} else {
-			printStep("Finish siphoning for the 2x2 block");
-			if (this.hasCube([0, 1])) {
-				yield* this.doRightSiphonRemoval();
-				if (this.hasCube([1, 1])) {
-					printMiniStep('Move cube at (1, 1) to siphon position');
-					yield new Move(this, [1, 1], MoveDirection.S);
-					yield* this.doRightSiphonRemoval();
+			this.tracer.step('Finish siphoning for the 2x2 block');
+			if (this.hasCube([ox, oy + 1])) {
+				yield* this.doRightSiphonRemoval(origin);
+				if (this.hasCube([ox + 1, oy + 1])) {
+					this.tracer.subStep(`Move cube at (${ox + 1}, ${oy + 1}) ` +
+							`to siphon position`);
+					yield new Move(this, [ox + 1, oy + 1], MoveDirection.S);
+					yield* this.doRightSiphonRemoval(origin);
 				}
-				if (this.hasCube([0, 1])) {
-					yield* this.doTopSiphonRemoval();
+				if (this.hasCube([ox, oy + 1])) {
+					yield* this.doTopSiphonRemoval(origin);
 				}
-			} else if (this.hasCube([1, 0])) {
-				yield* this.doTopSiphonRemoval();
-				if (this.hasCube([1, 1])) {
-					printMiniStep('Move cube at (1, 1) to siphon position');
-					yield new Move(this, [1, 1], MoveDirection.W);
-					yield* this.doTopSiphonRemoval();
+			} else if (this.hasCube([ox + 1, oy])) {
+				yield* this.doTopSiphonRemoval(origin);
+				if (this.hasCube([ox + 1, oy + 1])) {
+					this.tracer.subStep(`Move cube at (${ox + 1}, ${oy + 1}) ` +
+							`to siphon position`);
+					yield new Move(this, [ox + 1, oy + 1], MoveDirection.W);
+					yield* this.doTopSiphonRemoval(origin);
 				}
-				if (this.hasCube([1, 0])) {
-					yield* this.doRightSiphonRemoval();
+				if (this.hasCube([ox + 1, oy])) {
+					yield* this.doRightSiphonRemoval(origin);
 				}
 			}
 		}
 	}
 
 	/**
-	 * Removes the cube at (1, 0) and puts it in the line being built.
+	 * Removes the cube at (1, 0) relative to the origin and puts it in the
+	 * line being built.
 	 */
-	*doRightSiphonRemoval(): Algorithm {
-		printMiniStep('Siphon away (1, 0)');
-		yield new Move(this, [1, 0], MoveDirection.SW);
-		let x = 0;
-		while (this.hasCube([x - 1, 0])) {
-			yield new Move(this, [x, -1], MoveDirection.W);
+	*doRightSiphonRemoval([ox, oy]: [number, number]): Algorithm {
+		this.tracer.subStep(`Siphon away (${ox + 1}, ${oy})`);
+		yield new Move(this, [ox + 1, oy], MoveDirection.SW);
+		let x = ox;
+		while (this.hasCube([x - 1, oy])) {
+			yield new Move(this, [x, oy - 1], MoveDirection.W);
 			x--;
 		}
-		yield new Move(this, [x, -1], MoveDirection.WN);
+		yield new Move(this, [x, oy - 1], MoveDirection.WN);
 	}
 
 	/**
-	 * Removes the cube at (0, 1) and puts it in the line being built.
+	 * Removes the cube at (0, 1) relative to the origin and puts it in the
+	 * line being built.
 	 */
-	*doTopSiphonRemoval(): Algorithm {
-		printMiniStep('Siphon away (0, 1)');
-		let x = 0;
-		while (this.hasCube([x - 1, 0])) {
-			yield new Move(this, [x, 1], MoveDirection.W);
+	*doTopSiphonRemoval([ox, oy]: [number, number]): Algorithm {
+		this.tracer.subStep(`Siphon away (${ox}, ${oy + 1})`);
+		let x = ox;
+		while (this.hasCube([x - 1, oy])) {
+			yield new Move(this, [x, oy + 1], MoveDirection.W);
 			x--;
 		}
-		yield new Move(this, [x, 1], MoveDirection.WS);
+		yield new Move(this, [x, oy + 1], MoveDirection.WS);
 	}
 
 	/**
-	 * Fills the empty cell at (1, 0) or (0, 1) by executing a siphoning path.
-	 * This is guaranteed to keep the configuration siphonable except possibly
-	 * for a single parity cube, which can be removed by calling this method
-	 * again.
+	 * Fills the empty cell at (1, 0) or (0, 1) relative to the origin by
+	 * executing a siphoning path. This is guaranteed to keep the
+	 * configuration siphonable except possibly for a single parity cube,
+	 * which can be removed by calling this method again.
 	 *
 	 * If viaLeft === false, this method fills the empty cell at (1, 0) by
 	 * using a siphoning path along the bottom boundary.
 	 *
 	 * If viaLeft === true, this method fills the empty cell at (0, 1) by
 	 * using a siphoning path along the left boundary.
+	 *
+	 * (The coordinates in the comments below are relative to the origin as
+	 * well.)
 	 */
-	*doSiphonFill(viaLeft: boolean): Algorithm {
+	*doSiphonFill(origin: [number, number], viaLeft: boolean): Algorithm {
+		const [ox, oy] = origin;
 
 		// step 1: find the target
 		const boundary = this.outsideCubes().map(b => b.p);
@@ -795,7 +1168,7 @@ class World {
 			boundary.unshift(boundary.pop()!);
 		}
 
-		let target = [0, 0];
+		let target = [ox, oy];
 		let targetIndex = -1;
 
 		// start at the origin (0, 0), and find the first non-monotone boundary
@@ -803,7 +1176,7 @@ class World {
 		let startIndex = -1;
 
 		for (let i = 0; i < boundary.length; i++) {
-			if (boundary[i][0] === 0 && boundary[i][1] === 0) {
+			if (boundary[i][0] === ox && boundary[i][1] === oy) {
 				startIndex = i;
 				break;
 			}
@@ -827,7 +1200,7 @@ class World {
 		// step 2: if removing the target would result in a near parity cube,
 		// take that cube instead
 
-		const goal = viaLeft ? '(0, 1)' : '(1, 0)';
+		const goal = viaLeft ? `(${ox}, ${oy + 1})` : `(${ox + 1}, ${oy})`;
 		const direction = viaLeft ? 'left' : 'bottom';
 		let detectedNearParityCube = false;
 
@@ -838,7 +1211,7 @@ class World {
 		if (potentialNearCube[0] === target[0] - (viaLeft ? 1 : 0) &&
 				potentialNearCube[1] === target[1] - (viaLeft ? 0 : 1) &&
 				!this.hasCube([potentialNearCube[0] - (viaLeft ? 1 : 0), potentialNearCube[1] - (viaLeft ? 0 : 1)])) {
-			printMiniStep(`Fill ${goal} again with a ${direction} boundary ` +
+			this.tracer.subStep(`Fill ${goal} again with a ${direction} boundary`,
 					`to (${boundary[targetIndex - 1][0]}, ` +
 					`${boundary[targetIndex - 1][1]}) ` +
 					`(not to (${target[0]}, ${target[1]}) ` +
@@ -850,7 +1223,7 @@ class World {
 			targetIndex--;
 			detectedNearParityCube = true;
 		} else {
-			printMiniStep(`Fill ${goal} again with a ${direction} boundary ` +
+			this.tracer.subStep(`Fill ${goal} again with a ${direction} boundary`,
 					`siphoning path to (${target[0]}, ${target[1]})`);
 		}
 
@@ -865,13 +1238,13 @@ class World {
 		// doesn't exist, add 2 to start with (1, 1))
 
 		// (or the other way round if we're following the left boundary)
-		if (this.hasCube(viaLeft ? [0, 2] : [2, 0])) {
+		if (this.hasCube(viaLeft ? [ox, oy + 2] : [ox + 2, oy])) {
 			startIndex += 4;
 		} else {
 			startIndex += 2;
 		}
 		for (let i = startIndex; i <= targetIndex; i++) {
-			let emptySpace = viaLeft ? [0, 1] : [1, 0];
+			let emptySpace = viaLeft ? [ox, oy + 1] : [ox + 1, oy];
 			if (i > startIndex) {
 				emptySpace = boundary[i - 1];
 			}
@@ -884,7 +1257,7 @@ class World {
 					emptySpace[0] === boundary[i + 1][0] - 1 &&
 					emptySpace[1] === boundary[i + 1][1] - 1 &&
 					!this.hasCube([boundary[i + 1][0] - (viaLeft ? 1 : 0) , boundary[i + 1][1] - (viaLeft ? 0 : 1)])) {
-				printMiniStep(`Fix parity cube ` +
+				this.tracer.subStep('Fix parity cube',
 						`(${boundary[i + 1][0]}, ${boundary[i + 1][1]}) ` +
 						`made in the previous siphoning step by a corner move`);
 				if (viaLeft) {
@@ -907,13 +1280,13 @@ class World {
 		const potentialFarCube = boundary[targetIndex + 1];
 		if (this.hasOneNeighbor(this.getCube(potentialFarCube)!)) {
 			if (detectedNearParityCube) {
-				printMiniStep(`We made a parity cube ` +
+				this.tracer.subStep('We made a parity cube',
 						`(${potentialFarCube[0]}, ${potentialFarCube[1]}), ` +
 						`but we will fix it in the next siphoning step`);
 			} else {
-				printMiniStep(`Do monotone moves to remove parity cube ` +
+				this.tracer.subStep('Do monotone moves to remove parity cube',
 						`(${potentialFarCube[0]}, ${potentialFarCube[1]})`);
-				yield* this.doFreeMoves(potentialFarCube);
+				yield* this.doFreeMoves(origin, potentialFarCube);
 			}
 		}
 	}
@@ -922,30 +1295,30 @@ class World {
 	 * Do any free moves (W, S, SW, WS) possible, starting from the given cube,
 	 * until it has N- and W neighbors.
 	 */
-	*doFreeMoves(p: [number, number]): Algorithm {
+	*doFreeMoves([ox, oy]: [number, number], p: [number, number]): Algorithm {
 		let has;
 		while (has = this.hasNeighbors(p), !has['W'] || !has["N"]) {
 			let move = new Move(this, p, MoveDirection.W);
-			if (p[0] > 1 && move.isValid()) {
+			if (p[0] > ox + 1 && move.isValid()) {
 				yield move;
 				p[0]--;
 				continue;
 			}
 			move = new Move(this, p, MoveDirection.S);
-			if (p[1] > 1 && move.isValid()) {
+			if (p[1] > oy + 1 && move.isValid()) {
 				yield move;
 				p[1]--;
 				continue;
 			}
 			move = new Move(this, p, MoveDirection.SW);
-			if (p[0] > 2 && p[1] > 0 && move.isValid()) {
+			if (p[0] > ox + 2 && p[1] > oy && move.isValid()) {
 				yield move;
 				p[0]--;
 				p[1]--;
 				continue;
 			}
 			move = new Move(this, p, MoveDirection.WS);
-			if (p[0] > 0 && p[1] > 2 && move.isValid()) {
+			if (p[0] > ox && p[1] > oy + 2 && move.isValid()) {
 				yield move;
 				p[0]--;
 				p[1]--;
@@ -1103,7 +1476,7 @@ class World {
 	 * Performs an inflate move to fill the given gap.
 	 */
 	*doInflate([x, y]: [number, number]): Algorithm {
-		printStep(`Inflate move to fill gap (${x}, ${y})`);
+		this.tracer.step('Inflate move to fill gap', `(${x}, ${y})`);
 		yield new Move(this, [x + 1, y], MoveDirection.W);
 		yield new Move(this, [x + 1, y + 1], MoveDirection.S);
 	}
@@ -1113,15 +1486,15 @@ class World {
 	 */
 	*doDeflate([x, y]: [number, number]): Algorithm {
 
-		printStep(`Deflate move to fill gap (${x}, ${y})`);
+		this.tracer.step('Deflate move to fill gap', `(${x}, ${y})`);
 		const xOriginal = x;
 
 		while (this.needsTuck([x, y])) {
-			printMiniStep('Row is longer than surrounding rows, so tuck to maintain connectivity');
+			this.tracer.subStep('Row is longer than surrounding rows, so tuck to maintain connectivity');
 			yield* this.doTuck([x, y]);
 		}
 
-		printMiniStep(`Move row to the right of (${x}, ${y}) to the left`);
+		this.tracer.subStep('Move row to the right of', `(${x}, ${y}) to the left`);
 		while (this.hasCube([x + 1, y])) {
 			yield new Move(this, [x + 1, y], MoveDirection.W);
 			x++;
@@ -1129,10 +1502,10 @@ class World {
 		// if did only one step, we need to tuck the last cube in the previous
 		// into the gap, because otherwise we break 2-connectivity
 		if (x === xOriginal + 1) {
-			printMiniStep('Do extra tuck from the row above to maintain 2-connectivity');
+			this.tracer.subStep('Do extra tuck from the row above to maintain 2-connectivity');
 			yield* this.doTuck([x, y + 1]);
 		}
-		printMiniStep(`Bubbling done because (${x + 1}, ${y}) is empty`);
+		this.tracer.subStep('Bubbling done because', `(${x + 1}, ${y}) is empty`);
 	}
 
 	/**
@@ -1169,13 +1542,88 @@ class World {
 		}
 	}
 
+	/**
+	 * Redraws the obstacles.
+	 */
+	updateObstaclePixi(): void {
+		this.obstaclePixi.clear();
+		this.obstaclePixi.beginFill(0x666666);
+		this.obstaclePixi.lineStyle(6, 0x222222);
+		for (const [x, y] of this.obstacles) {
+			this.obstaclePixi.drawRect(80 * x - 40, -80 * y - 40, 80, 80);
+		}
+		this.obstaclePixi.endFill();
+	}
+
+	/**
+	 * Redraws the annotations, as overlays on top of the cubes.
+	 */
+	updateAnnotationPixi(annotations: Annotation[]): void {
+		this.annotationPixi.removeChildren();
+		const graphics = new PIXI.Graphics();
+		this.annotationPixi.addChild(graphics);
+
+		for (const annotation of annotations) {
+			let labelPosition: [number, number];
+			switch (annotation.type) {
+				case 'cell': {
+					const [x, y] = annotation.p;
+					graphics.lineStyle(8, 0xE69F00);
+					graphics.drawRect(80 * x - 44, -80 * y - 44, 88, 88);
+					labelPosition = annotation.p;
+					break;
+				}
+				case 'arrow': {
+					const [x1, y1] = [80 * annotation.from[0], -80 * annotation.from[1]];
+					const [x2, y2] = [80 * annotation.to[0], -80 * annotation.to[1]];
+					const angle = Math.atan2(y2 - y1, x2 - x1);
+					graphics.lineStyle(6, 0xD55E00);
+					graphics.moveTo(x1, y1);
+					graphics.lineTo(x2, y2);
+					graphics.lineStyle(0);
+					graphics.beginFill(0xD55E00);
+					graphics.drawPolygon([
+						x2, y2,
+						x2 - 24 * Math.cos(angle - 0.4), y2 - 24 * Math.sin(angle - 0.4),
+						x2 - 24 * Math.cos(angle + 0.4), y2 - 24 * Math.sin(angle + 0.4)
+					]);
+					graphics.endFill();
+					labelPosition = annotation.from;
+					break;
+				}
+				case 'path': {
+					graphics.lineStyle(6, 0x009E73);
+					annotation.cells.forEach(([x, y], i) => {
+						if (i === 0) {
+							graphics.moveTo(80 * x, -80 * y);
+						} else {
+							graphics.lineTo(80 * x, -80 * y);
+						}
+					});
+					labelPosition = annotation.cells[0];
+					break;
+				}
+			}
+
+			if (annotation.label) {
+				const label = new PIXI.Text(annotation.label,
+					Constants.annotationStyle);
+				label.x = 80 * labelPosition[0] + 44;
+				label.y = -80 * labelPosition[1] - 44;
+				label.anchor.set(0, 1);
+				this.annotationPixi.addChild(label);
+			}
+		}
+	}
+
 	updatePositions(time: number, timeStep: number): void {
 		this.cubes.forEach((cube) => {
 			cube.updatePosition(time, timeStep);
 		});
-		if (this.currentMove) {
-			const p = this.currentMove.position;
-			this.getCube(p)?.updatePosition(time, timeStep, this.currentMove);
+		const moves = this.currentRound.concat(
+				this.currentMove ? [this.currentMove] : []);
+		for (const move of moves) {
+			this.getCube(move.position)?.updatePosition(time, timeStep, move);
 		}
 	}
 
@@ -1184,27 +1632,119 @@ class World {
 	 */
 	reset(): void {
 		this.cubes.forEach((cube) => {
-			this.getCell(cube.p).cubeId = null;
+			this.cells.setCubeIndex(cube.p[0], cube.p[1], null);
 		});
 		for (let i = 0; i < this.cubes.length; i++) {
 			const cube = this.cubes[i];
 			cube.p = [cube.resetPosition[0], cube.resetPosition[1]];
 			cube.dots = [];
 			cube.dotsLayer.removeChildren();
-			this.getCell(cube.p).cubeId = i;
+			this.cells.setCubeIndex(cube.p[0], cube.p[1], i);
 		}
+		this.connectivity.invalidate();
+		this.clearHistory();
 		this.markComponents();
 	}
 
+	/**
+	 * Moves every cube (and its starting location) and every obstacle to its
+	 * image under the given transformation. This clears the move history.
+	 */
+	transform(t: Transform): void {
+		this.cubes.forEach((cube) => {
+			this.cells.setCubeIndex(cube.p[0], cube.p[1], null);
+		});
+		this.obstacles.forEach((p) => {
+			this.cells.setObstacle(p[0], p[1], false);
+		});
+		this.obstacles = this.obstacles.map((p) => t.apply(p));
+		this.obstacles.forEach((p) => {
+			this.cells.setObstacle(p[0], p[1], true);
+		});
+		this.updateObstaclePixi();
+		for (let i = 0; i < this.cubes.length; i++) {
+			const cube = this.cubes[i];
+			cube.p = t.apply(cube.p);
+			cube.resetPosition = t.apply(cube.resetPosition);
+			cube.dots = [];
+			cube.dotsLayer.removeChildren();
+			cube.updatePosition(0, 0);
+			this.cells.setCubeIndex(cube.p[0], cube.p[1], i);
+		}
+		this.currentMove = null;
+		this.connectivity.invalidate();
+		this.clearHistory();
+		this.markComponents();
+	}
+
+	/**
+	 * Translates the configuration by (dx, dy).
+	 */
+	translate(dx: number, dy: number): void {
+		this.transform(Transform.translation(dx, dy));
+	}
+
+	/**
+	 * Rotates the configuration around the origin by the given number of
+	 * quarter turns counter-clockwise.
+	 */
+	rotate(quarterTurns = 1): void {
+		this.transform(Transform.rotation(quarterTurns));
+	}
+
+	/**
+	 * Mirrors the configuration in the y-axis.
+	 */
+	mirror(): void {
+		this.transform(Transform.mirror());
+	}
+
+	/**
+	 * Translates the configuration such that its downmost row and leftmost
+	 * column are at y = 0 and x = 0, respectively. Returns the translation,
+	 * so that it can be undone.
+	 */
+	normalize(): Transform {
+		if (!this.cubes.length) {
+			return Transform.IDENTITY;
+		}
+		const [minX, minY, , ] = this.bounds();
+		const t = Transform.translation(-minX, -minY);
+		this.transform(t);
+		return t;
+	}
+
 	/**
 	 * Checks if the configuration is connected. If the skip parameter is
 	 * provided, that cube is ignored (considered as non-existing).
+	 *
+	 * Unless obstacles count toward connectivity, this uses the cut cubes
+	 * cached by Connectivity, so repeated calls between two moves are cheap.
 	 */
 	isConnected(skip?: [number, number]): boolean {
 		if (!this.cubes.length) {
 			return true;
 		}
 
+		if (this.obstaclesConnect && this.obstacles.length) {
+			return this.isConnectedViaObstacles(skip);
+		}
+
+		if (skip) {
+			return this.connectivity.isConnectedWithout(skip);
+		}
+		return this.connectivity.isConnected();
+	}
+
+	/**
+	 * As isConnected(), but always does a BFS over the cubes (ignoring
+	 * obstacles).
+	 */
+	isConnectedBFS(skip?: [number, number]): boolean {
+		if (!this.cubes.length) {
+			return true;
+		}
+
 		// do BFS from cube 0 to check if we can reach all cubes
 		let seen = Array(this.cubes.length).fill(false);
 		let seenCount = 0;
@@ -1212,7 +1752,7 @@ class World {
 
 		if (skip) {
 			// mark the skipped cube so we won't visit it again
-			const skipIndex = this.getCubeId(skip);
+			const skipIndex = this.getCubeIndex(skip);
 			if (skipIndex !== null) {
 				seen[skipIndex] = true;
 				seenCount++;
@@ -1240,14 +1780,14 @@ class World {
 			seenCount++;
 
 			const neighbors = [
-				this.getCell([cube.p[0] - 1, cube.p[1]]),
-				this.getCell([cube.p[0] + 1, cube.p[1]]),
-				this.getCell([cube.p[0], cube.p[1] - 1]),
-				this.getCell([cube.p[0], cube.p[1] + 1])
+				this.getCubeIndex([cube.p[0] - 1, cube.p[1]]),
+				this.getCubeIndex([cube.p[0] + 1, cube.p[1]]),
+				this.getCubeIndex([cube.p[0], cube.p[1] - 1]),
+				this.getCubeIndex([cube.p[0], cube.p[1] + 1])
 			];
 			neighbors.forEach(function(c) {
-				if (c.cubeId) {
-					queue.push(c.cubeId);
+				if (c !== null) {
+					queue.push(c);
 				}
 			});
 		}
@@ -1301,6 +1841,109 @@ class World {
 		return true;
 	}
 
+	/**
+	 * As isConnected(), but also allows cubes to be connected through
+	 * obstacles.
+	 */
+	private isConnectedViaObstacles(skip?: [number, number]): boolean {
+		const skipIndex = skip ? this.getCubeIndex(skip) : null;
+		const start = this.cubes.find((c, i) => i !== skipIndex);
+		if (!start) {
+			return true;
+		}
+
+		// do BFS over cubes and obstacles
+		let seen = new Set<string>();
+		let seenCount = 0;
+		let queue: [number, number][] = [start.p];
+		while (queue.length !== 0) {
+			const [x, y] = queue.shift()!;
+			if (seen.has(x + "," + y)) {
+				continue;
+			}
+			seen.add(x + "," + y);
+			if (this.hasCube([x, y])) {
+				seenCount++;
+			}
+
+			const neighbors: [number, number][] =
+					[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+			for (const n of neighbors) {
+				if (this.isBlocked(n) && (skipIndex === null ||
+						this.getCubeIndex(n) !== skipIndex)) {
+					queue.push(n);
+				}
+			}
+		}
+
+		return seenCount === this.cubes.length - (skipIndex === null ? 0 : 1);
+	}
+
+	/**
+	 * Checks if the configuration would be connected after moving the cube
+	 * at the given source location to the given (empty) target location.
+	 *
+	 * If the source location is empty (because the cube has been taken out
+	 * temporarily, as in findMovePath()), this checks if the configuration
+	 * would be connected after putting a cube at the target location. This
+	 * does not change the configuration (no cube is actually added).
+	 */
+	isConnectedAfterMove(from: [number, number], to: [number, number]):
+			boolean {
+		if (!this.hasCube(from)) {
+			// a cube next to a connected configuration keeps it connected
+			if (this.getNeighbors(to).length > 0 && this.isConnected()) {
+				return true;
+			}
+			return this.isConnectedWith(to);
+		}
+		this.moveCubeUnmarked(from, to);
+		const connected = this.isConnected();
+		this.moveCubeUnmarked(to, from);
+		return connected;
+	}
+
+	/**
+	 * Checks if the configuration would be connected with an additional cube
+	 * at the given (empty) location, by a BFS over the grid from that
+	 * location.
+	 */
+	private isConnectedWith(p: [number, number]): boolean {
+		const viaObstacles = this.obstaclesConnect && this.obstacles.length > 0;
+		let seen = new Set<string>([p[0] + "," + p[1]]);
+		let seenCount = 0;
+		let queue: [number, number][] = [p];
+		while (queue.length !== 0) {
+			const [x, y] = queue.shift()!;
+			const neighbors: [number, number][] =
+					[[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+			for (const n of neighbors) {
+				if (seen.has(n[0] + "," + n[1])) {
+					continue;
+				}
+				if (this.hasCube(n)) {
+					seenCount++;
+				} else if (!viaObstacles || !this.hasObstacle(n)) {
+					continue;
+				}
+				seen.add(n[0] + "," + n[1]);
+				queue.push(n);
+			}
+		}
+		return seenCount === this.cubes.length;
+	}
+
+	/**
+	 * Returns a hash of the configuration: the set of cells that contain a
+	 * cube (regardless of which cube is where, and ignoring obstacles). Equal
+	 * configurations have equal hashes, and different configurations have
+	 * different hashes with high probability. The hash is updated
+	 * incrementally, so this takes O(1) time.
+	 */
+	hash(): string {
+		return this.cells.hash();
+	}
+
 	/**
 	 * Returns the minimum and maximum x- and y-coordinates of cubes in the
 	 * configuration, as an array [minX, minY, maxX, maxY].
@@ -1350,12 +1993,13 @@ class World {
 	 */
 	markComponents(): void {
 		const [components, chunkIds] = this.findComponents();
-		const stable = this.findCubeStability();
+		const cut = this.blockCutTree().cut;
 		for (let i = 0; i < this.cubes.length; i++) {
+			const stable = !cut[i];
 			if (components[i] === 2) {
-				this.cubes[i].setComponentStatus(stable[i] ? ComponentStatus.CHUNK_STABLE : ComponentStatus.CHUNK_CUT);
+				this.cubes[i].setComponentStatus(stable ? ComponentStatus.CHUNK_STABLE : ComponentStatus.CHUNK_CUT);
 			} else if (components[i] === 1) {
-				this.cubes[i].setComponentStatus(stable[i] ? ComponentStatus.LINK_STABLE : ComponentStatus.LINK_CUT);
+				this.cubes[i].setComponentStatus(stable ? ComponentStatus.LINK_STABLE : ComponentStatus.LINK_CUT);
 			} else if (components[i] === 3) {
 				this.cubes[i].setComponentStatus(ComponentStatus.CONNECTOR);
 			} else {
@@ -1384,6 +2028,13 @@ class World {
 	 * the chunk ID of the chunk closer to the root is returned. Cubes that
 	 * are not in a chunk get chunk ID -1.
 	 *
+	 * The components are the blocks of the block-cut tree: chunks are the
+	 * 2-connected blocks and links are the blocks consisting of a single edge.
+	 * Only the blocks on the outside count as separate components; blocks
+	 * enclosed by a chunk (that is, in one of its holes) are part of that
+	 * chunk. Hence cubes that are not on the outside always get component
+	 * status 2 and chunk ID -1.
+	 *
 	 * If the configuration is disconneted, this returns -1 for both component
 	 * status and chunk IDs.
 	 */
@@ -1397,56 +2048,38 @@ class World {
 			return [components, chunkIds];
 		}
 
-		let seen = Array(this.cubes.length).fill(false);
-		const outside = this.outsideCubes();
-		let stack = [];
-		let chunksSeen = 0;
-
-		// walk over the outside
-		for (let i = 0; i < outside.length; i++) {
-			const cube = outside[i];
-			const cubeId = this.getCubeId(cube.p)!;
-
-			// if we've not seen this cube, put it on the stack
-			// else mark its component and pop it
-			if (!seen[cubeId]) {
-				seen[cubeId] = true;
-				stack.push(cubeId);
-			} else if (stack.length >= 1 && stack[stack.length - 2] === cubeId) {
-				const cId = stack.pop()!;
-				if (components[cId] === -1) {
-					components[cId] = 1;
-				}
-				if (components[cubeId] === -1) {
-					components[cubeId] = 1;
-				}
-			} else {
-				// pop entire 2-component in one go
-				while (stack.length > 1 && stack[stack.length - 1] !== cubeId) {
-					const cId = stack.pop()!;
-					components[cId] = components[cId] !== -1 ? 3 : 2;
-					chunkIds[cId] = chunksSeen;
-				}
-				// mark attachment point as cross (except if stack is empty)
-				const cId = stack[stack.length - 1];
-				components[cId] = stack.length > 1 ? 3 : 2;
-				chunkIds[cId] = chunksSeen;
-				chunksSeen++;
-			}
+		let outside = Array(this.cubes.length).fill(false);
+		for (const cube of this.outsideCubes()) {
+			outside[this.getCubeIndex(cube.p)!] = true;
 		}
 
-		// if origin wasn't put in a component yet, it needs to be a
-		// 1-component
-		const originId = this.getCubeId(outside[0].p)!;
-		if (components[originId] === -1) {
-			components[originId] = 1;
+		// a block is on the outside if one of its cubes other than its
+		// attachment is; else it hangs into a hole (number the chunks on the
+		// outside in the order the block-cut tree found them)
+		const tree = this.blockCutTree();
+		let onOutside: boolean[] = [];
+		let chunkNumbers: number[] = [];
+		let chunksSeen = 0;
+		for (const block of tree.blocks) {
+			onOutside.push(block.cubes.some(
+					(c) => c !== block.attachment && outside[c]));
+			chunkNumbers.push(onOutside[onOutside.length - 1] && block.chunk ?
+					chunksSeen++ : -1);
 		}
 
-		// and all remaining cubes not in a component need to be on the inside
-		// of a 2-component
-		for (let i = 0; i < components.length; i++) {
-			if (components[i] === -1) {
+		for (let i = 0; i < this.cubes.length; i++) {
+			if (!outside[i]) {
 				components[i] = 2;
+				continue;
+			}
+			const blocks = tree.cubeBlocks[i].filter((b) => onOutside[b]);
+			const chunks = blocks.filter((b) => tree.blocks[b].chunk);
+			if (!chunks.length) {
+				components[i] = 1;
+			} else {
+				components[i] = blocks.length > 1 ? 3 : 2;
+				// the first chunk is the one closest to the root
+				chunkIds[i] = chunkNumbers[chunks[0]];
 			}
 		}
 
@@ -1455,7 +2088,7 @@ class World {
 			if (components[i] === 1 &&
 					this.degree(this.cubes[i]) === 1) {
 				const neighbor = this.getOneNeighbor(this.cubes[i])!;
-				const neighborIndex = this.getCubeId(neighbor.p)!;
+				const neighborIndex = this.getCubeIndex(neighbor.p)!;
 				if (components[neighborIndex] === 3) {
 					components[i] = 2;
 					chunkIds[i] = chunkIds[neighborIndex];
@@ -1469,13 +2102,13 @@ class World {
 					let shouldRemoveConnector = true;
 					for (let c of cs) {
 						if (c) {
-							if (components[this.getCubeId(c.p)!] === 1) {
+							if (components[this.getCubeIndex(c.p)!] === 1) {
 								shouldRemoveConnector = false;
 							}
 						}
 					}
 					if (shouldRemoveConnector) {
-						components[this.getCubeId(neighbor.p)!] = 2;
+						components[this.getCubeIndex(neighbor.p)!] = 2;
 					}
 				}
 			}
@@ -1485,62 +2118,12 @@ class World {
 	}
 
 	/**
-	 * Determines which cubes in the configuration are stable.
-	 *
-	 * Returns a list of booleans for each cube: true if the corresponding cube
-	 * is stable; false if it is a cut cube.
+	 * Returns the block-cut tree of the configuration, rooted at the
+	 * downmost-leftmost cube. The tree is cached until the configuration
+	 * changes.
 	 */
-	findCubeStability(): boolean[] {
-		if (!this.cubes.length) {
-			return [];
-		}
-		let seen = Array(this.cubes.length).fill(false);
-		let parent: (number | null)[] = Array(this.cubes.length).fill(null);
-		let depth = Array(this.cubes.length).fill(-1);
-		let low = Array(this.cubes.length).fill(-1);
-		let stable = Array(this.cubes.length).fill(true);
-		this.findCubeStabilityRecursive(0, 0, seen, parent, depth, low, stable);
-		return stable;
-	}
-
-	private findCubeStabilityRecursive(i: number, d: number,
-			seen: boolean[], parent: (number | null)[],
-			depth: number[], low: number[],
-			stable: boolean[]): void {
-
-		seen[i] = true;
-		depth[i] = d;
-		low[i] = d;
-		let cube = this.cubes[i];
-
-		const neighbors = [
-			this.getCell([cube.p[0] - 1, cube.p[1]]),
-			this.getCell([cube.p[0] + 1, cube.p[1]]),
-			this.getCell([cube.p[0], cube.p[1] - 1]),
-			this.getCell([cube.p[0], cube.p[1] + 1])
-		];
-		const self = this;
-		let cutCube = false;
-		let childCount = 0;
-		neighbors.forEach(function(c) {
-			if (c.cubeId !== null && !seen[c.cubeId]) {
-				parent[c.cubeId] = i;
-				self.findCubeStabilityRecursive(c.cubeId, d + 1,
-						seen, parent, depth, low, stable);
-				childCount++;
-				if (low[c.cubeId] >= depth[i]) {
-					cutCube = true;
-				}
-				low[i] = Math.min(low[i], low[c.cubeId]);
-			} else if (c.cubeId !== null && c.cubeId != parent[i]) {
-				low[i] = Math.min(low[i], depth[c.cubeId]);
-			}
-		});
-		if (parent[i] === null) {
-			stable[i] = childCount <= 1;
-		} else {
-			stable[i] = !cutCube;
-		}
+	blockCutTree(): BlockCutTree {
+		return this.connectivity.blockCutTree();
 	}
 
 	/**
@@ -1563,7 +2146,7 @@ class World {
 		let newBranch = false;
 		for (let i = 0; i < outside.length; i++) {
 			const cube = outside[i];
-			const cubeId = this.getCubeId(cube.p)!;
+			const cubeId = this.getCubeIndex(cube.p)!;
 
 			// if we've not seen this cube, put it on the stack
 			// else mark its component and pop it
@@ -1633,7 +2216,7 @@ class World {
 		// walk over the outside
 		for (let i = 0; i < outside.length; i++) {
 			const cube = outside[i];
-			const cubeId = this.getCubeId(cube.p)!;
+			const cubeId = this.getCubeIndex(cube.p)!;
 
 			if (!seen[cubeId]) {
 				seen[cubeId] = true;
@@ -1726,42 +2309,7 @@ class World {
 	 * Given a cube, determines the number of cubes in its descendant(s).
 	 */
 	bridgeCapacity(b: Cube): number {
-
-		// do a BFS from the root, but ignore b
-		let seen = Array(this.cubes.length).fill(false);
-		const bId = this.getCubeId(b.p)!;
-		seen[bId] = true;
-		let cubeCount = 1;
-
-		const originId = this.getCubeId(this.downmostLeftmost()!.p);
-		let queue = [originId];
-
-		while (queue.length !== 0) {
-			const cubeId = queue.shift()!;
-			if (seen[cubeId]) {
-				continue;
-			}
-
-			const cube = this.cubes[cubeId];
-			seen[cubeId] = true;
-			if (bId !== cubeId) {
-				cubeCount++;
-			}
-
-			const neighbors = [
-				this.getCell([cube.p[0] - 1, cube.p[1]]),
-				this.getCell([cube.p[0] + 1, cube.p[1]]),
-				this.getCell([cube.p[0], cube.p[1] - 1]),
-				this.getCell([cube.p[0], cube.p[1] + 1])
-			];
-			neighbors.forEach(function(c) {
-				if (c.cubeId !== null) {
-					queue.push(c.cubeId);
-				}
-			});
-		}
-
-		return this.cubes.length - cubeCount;
+		return this.blockCutTree().descendants[this.getCubeIndex(b.p)!];
 	}
 
 	/**
@@ -1773,7 +2321,7 @@ class World {
 		// do a BFS
 		let seen = Array(this.cubes.length).fill(false);
 		let parent: (Cube | null)[] = Array(this.cubes.length).fill(null);
-		let queue: [number, Cube | null][] = [[this.getCubeId(from.p)!, null]];
+		let queue: [number, Cube | null][] = [[this.getCubeIndex(from.p)!, null]];
 
 		while (queue.length !== 0) {
 			const [cubeId, p] = queue.shift()!;
@@ -1786,14 +2334,14 @@ class World {
 			parent[cubeId] = p;
 
 			const neighbors = [
-				this.getCell([cube.p[0] - 1, cube.p[1]]),
-				this.getCell([cube.p[0] + 1, cube.p[1]]),
-				this.getCell([cube.p[0], cube.p[1] - 1]),
-				this.getCell([cube.p[0], cube.p[1] + 1])
+				this.getCubeIndex([cube.p[0] - 1, cube.p[1]]),
+				this.getCubeIndex([cube.p[0] + 1, cube.p[1]]),
+				this.getCubeIndex([cube.p[0], cube.p[1] - 1]),
+				this.getCubeIndex([cube.p[0], cube.p[1] + 1])
 			];
 			neighbors.forEach(function(c) {
-				if (c.cubeId) {
-					queue.push([c.cubeId, cube]);
+				if (c !== null) {
+					queue.push([c, cube]);
 				}
 			});
 		}
@@ -1802,7 +2350,7 @@ class World {
 		let cube = to;
 		let path = [to];
 		while (cube.p[0] !== from.p[0] || cube.p[1] !== from.p[1]) {
-			cube = parent[this.getCubeId(cube.p)!]!;
+			cube = parent[this.getCubeIndex(cube.p)!]!;
 			path.unshift(cube);
 		}
 
@@ -1869,14 +2417,16 @@ class World {
 	}
 
 	/**
-	 * Generates a JSON string from this world.
+	 * Generates a JSON string from this world. The cubes are stored at their
+	 * reset positions, or at their current positions if `current` is set.
 	 */
-	serialize(): string {
+	serialize(current = false): string {
 		let cubes: any = [];
 		this.cubes.forEach((cube) => {
+			const p = current ? cube.p : cube.resetPosition;
 			cubes.push({
-				'x': cube.resetPosition[0],
-				'y': cube.resetPosition[1],
+				'x': p[0],
+				'y': p[1],
 				'color': [cube.color.r, cube.color.g, cube.color.b]
 			});
 		});
@@ -1884,6 +2434,15 @@ class World {
 			'_version': 1,
 			'cubes': cubes
 		};
+		if (this.obstacles.length) {
+			obj['obstacles'] = this.obstacles.map((p) => ({'x': p[0], 'y': p[1]}));
+		}
+		if (this.obstaclesConnect) {
+			obj['obstaclesConnect'] = true;
+		}
+		if (this.model.name !== 'sliding') {
+			obj['moveModel'] = this.model.name;
+		}
 		return JSON.stringify(obj);
 	}
 
@@ -1898,6 +2457,15 @@ class World {
 			throw 'Save file with incorrect version';
 		}
 
+		if (obj.hasOwnProperty('obstacles')) {
+			let obstacles: any[] = obj['obstacles'];
+			obstacles.forEach((obstacle: any) => {
+				this.addObstacle([obstacle['x'], obstacle['y']]);
+			});
+		}
+		this.obstaclesConnect = !!obj['obstaclesConnect'];
+		this.model = findMoveModel(obj['moveModel'] || 'sliding');
+
 		let cubes: any[] = obj['cubes'];
 		cubes.forEach((cube: any) => {
 			let color = Color.BLUE;
@@ -1918,6 +2486,19 @@ class World {
 
 		let elements = '';
 
+		// obstacles
+		this.obstacles.forEach((p) => {
+			let x = 8 * p[0];
+			let y = 8 * p[1];
+			elements += `<path stroke="black" fill="Gray 0.5" pen="heavier" cap="1" join="1">
+${x} ${y + 8} m
+${x} ${y} l
+${x + 8} ${y} l
+${x + 8} ${y + 8} l
+h
+</path>\n`;
+		});
+
 		// shadows
 		this.cubes.forEach((cube) => {
 			let x = 8 * cube.p[0];